@@ -0,0 +1,44 @@
+import { Evaluator, builtIns } from '../src/tapDigit'
+
+// Compares evaluate(), which lexes and parses on every call, with a function from compile().
+// Run with "npm run bench".
+
+const iterations = 20000
+const formulas = [
+  'x * 2 + 1',
+  'sin(x) * cos(x / 2) + sqrt(abs(x)) ^ 2',
+  'x > 50 ? (x - 50) * 0.9 + 50 : x',
+  'f(n) = n * 2 + 1; f(x) + f(x + 1)',
+]
+
+function time(fn: () => void): number {
+  let start = process.hrtime()
+  fn()
+  let [seconds, nanoseconds] = process.hrtime(start)
+  return seconds * 1e3 + nanoseconds / 1e6
+}
+
+for (let formula of formulas) {
+  let identifiers: { [name: string]: number } = { ...builtIns.identifiers, x: 0 }
+  let evaluator = new Evaluator(builtIns.functions, identifiers)
+
+  let interpreted = time(() => {
+    for (let i = 0; i < iterations; i += 1) {
+      identifiers.x = i % 100
+      evaluator.evaluate(formula)
+    }
+  })
+
+  let compiled = evaluator.compile(formula)
+  let variables = { x: 0 }
+  let executed = time(() => {
+    for (let i = 0; i < iterations; i += 1) {
+      variables.x = i % 100
+      compiled(variables)
+    }
+  })
+
+  console.log(formula)
+  console.log(`  evaluate: ${interpreted.toFixed(1)} ms`)
+  console.log(`  compile:  ${executed.toFixed(1)} ms (${(interpreted / executed).toFixed(1)}x faster)`)
+}
@@ -0,0 +1,138 @@
+import {TExpression, TFunctionDefinition, TIdentifier, TProgram, TRange, builtIns} from "./tapDigit"
+
+export type TAnalysisOptions = {
+  // Defaults to builtIns.functions
+  functions?: { [name: string]: unknown }
+  // Defaults to builtIns.identifiers
+  identifiers?: { [name: string]: unknown }
+  // Functions defined outside of the tree, eg. Evaluator.definitions
+  definitions?: { [name: string]: TFunctionDefinition }
+}
+
+// What a name refers to: a built-in, something the program (or options.definitions) defines, or neither
+export type TReferenceKind = 'builtIn' | 'defined' | 'unknown'
+
+export type TReference = {
+  name: string
+  kind: TReferenceKind
+  ranges: TRange[]  // Of every occurrence, in source order
+}
+
+export type TAnalysis = {
+  reads: TReference[]    // Free variables, read before the program assigns them
+  assigns: TReference[]  // Variables assigned outside of function bodies
+  calls: TReference[]    // Functions called, built-in or not
+}
+
+/**
+ * Finds the variables an expression reads and assigns and the functions it calls,
+ * in order of first occurrence. Parameters of a function definition, and variables
+ * assigned inside its body, are local to the call and left out.
+ */
+export function analyze(ast: TProgram | TExpression, options: TAnalysisOptions = {}): TAnalysis {
+  let functions = options.functions || builtIns.functions
+  let identifiers = options.identifiers || builtIns.identifiers
+  let definitions = options.definitions || {}
+  let statements = ast.type === 'Program' ? ast.body : [ast]
+
+  // A function may be called ahead of its definition from within another body, so all of them count
+  let defined: { [name: string]: boolean } = {}
+  for (let statement of statements) {
+    if (statement.type === 'FunctionDefinition') {
+      defined[statement.name.name] = true
+    }
+  }
+
+  let analysis: TAnalysis = { reads: [], assigns: [], calls: [] }
+
+  function add(references: TReference[], identifier: TIdentifier, kind: TReferenceKind): void {
+    let reference = references.find(other => other.name === identifier.name)
+    if (reference) {
+      reference.ranges.push(identifier.range)
+    } else {
+      references.push({ name: identifier.name, kind, ranges: [identifier.range] })
+    }
+  }
+
+  // [bound] holds the names assigned so far, or parameters inside a function body
+  function visit(node: TExpression, bound: { [name: string]: boolean }, local: boolean): void {
+    switch (node.type) {
+      case 'Identifier':
+        if (!bound.hasOwnProperty(node.name)) {
+          add(analysis.reads, node, identifiers.hasOwnProperty(node.name) ? 'builtIn' : 'unknown')
+        }
+        break
+
+      case 'UnaryExpression':
+        visit(node.argument, bound, local)
+        break
+
+      case 'ConversionExpression':
+        visit(node.value, bound, local)
+        break
+
+      case 'ArrayExpression':
+        for (let element of node.elements) {
+          visit(element, bound, local)
+        }
+        break
+
+      case 'IndexExpression':
+        visit(node.object, bound, local)
+        visit(node.index, bound, local)
+        break
+
+      case 'BinaryExpression':
+        visit(node.left, bound, local)
+        visit(node.right, bound, local)
+        break
+
+      case 'LogicalExpression':
+        visit(node.left, bound, local)
+        // The right side may not be evaluated, so what it assigns stays unbound afterwards
+        visit(node.right, { ...bound }, local)
+        break
+
+      case 'ConditionalExpression':
+        visit(node.test, bound, local)
+        visit(node.consequent, { ...bound }, local)
+        visit(node.alternate, { ...bound }, local)
+        break
+
+      case 'AssignmentExpression':
+        // The value is evaluated first, so a = a + 1 reads a
+        visit(node.value, bound, local)
+        if (!local) {
+          add(analysis.assigns, node.name, identifiers.hasOwnProperty(node.name.name) ? 'builtIn' : 'defined')
+        }
+        bound[node.name.name] = true
+        break
+
+      case 'CallExpression': {
+        let name = node.callee.name
+        let kind: TReferenceKind = functions.hasOwnProperty(name) ? 'builtIn' :
+          defined.hasOwnProperty(name) || definitions.hasOwnProperty(name) ? 'defined' : 'unknown'
+        add(analysis.calls, node.callee, kind)
+        for (let arg of node.arguments) {
+          visit(arg, bound, local)
+        }
+        break
+      }
+
+      case 'FunctionDefinition': {
+        let params: { [name: string]: boolean } = {}
+        for (let param of node.params) {
+          params[param.name] = true
+        }
+        visit(node.body, params, true)
+        break
+      }
+    }
+  }
+
+  let bound: { [name: string]: boolean } = {}
+  for (let statement of statements) {
+    visit(statement, bound, false)
+  }
+  return analysis
+}
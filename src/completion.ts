@@ -0,0 +1,177 @@
+import {
+  Lexer, LexerTokens, LimitError, Parser, TBuiltInFunction, TDiagnostic, TProgram, TRange, TToken, builtIns
+} from "./tapDigit"
+import {TSignature, formatSignature, signatureOf} from "./functions"
+import {analyze} from "./analysis"
+
+export type TCompletionContext = {
+  // Defaults to builtIns.functions
+  functions?: { [name: string]: TBuiltInFunction }
+  // Defaults to builtIns.identifiers
+  identifiers?: { [name: string]: unknown }
+  // Variables of the host, eg. Evaluator.session
+  variables?: { [name: string]: unknown }
+}
+
+export type TCompletionKind = 'function' | 'constant' | 'variable'
+
+export type TCompletion = {
+  name: string
+  kind: TCompletionKind
+  // eg. round(x, digits?) for a function and the value of a constant
+  detail: string
+}
+
+export type TCompletions = {
+  // The name at the cursor, which a completion replaces
+  range: TRange
+  items: TCompletion[]
+}
+
+export type TSignatureHelp = {
+  name: string
+  signature: TSignature
+  // eg. round(x, digits?)
+  label: string
+  // The parameter the argument at the cursor goes to, the last one for every argument of a variadic parameter
+  activeParameter: number
+}
+
+/**
+ * Returns the names which complete the identifier at the cursor, which start with what is typed up to
+ * the cursor, ignoring case: functions, constants, the variables of the context and those the expression
+ * assigns. Returns undefined when the cursor is not at an identifier, or at a unit after a number.
+ */
+export function complete(expr: string, offset: number, context: TCompletionContext = {}): TCompletions | undefined {
+  let tokens = new Lexer().tokenize(expr)
+  let index = tokens.findIndex(token => token.start! < offset && offset <= token.end! + 1)
+  let token = tokens[index]
+  if (token === undefined || token.type !== LexerTokens.identifier) {
+    return undefined
+  }
+  let previous = previousToken(tokens, index)
+  if (previous !== undefined && previous.type === LexerTokens.number) {
+    return undefined
+  }
+
+  let functions = context.functions || builtIns.functions
+  let identifiers = context.identifiers || builtIns.identifiers
+  let variables = context.variables || {}
+  let parsed = parseTyped(expr, context)
+  let program = parsed && parsed.program
+  let items: TCompletion[] = []
+  let seen: { [name: string]: boolean } = {}
+  function add(name: string, kind: TCompletionKind, detail: string): void {
+    if (!seen.hasOwnProperty(name)) {
+      seen[name] = true
+      items.push({ name, kind, detail })
+    }
+  }
+
+  for (let name of Object.keys(functions)) {
+    add(name, 'function', formatSignature(name, signatureOf(functions[name])))
+  }
+  if (program !== undefined) {
+    for (let statement of program.body) {
+      if (statement.type === 'FunctionDefinition') {
+        add(statement.name.name, 'function', formatSignature(statement.name.name, definedSignature(statement.params.map(param => param.name))))
+      }
+    }
+  }
+  for (let name of Object.keys(identifiers)) {
+    add(name, 'constant', String(identifiers[name]))
+  }
+  for (let name of Object.keys(variables)) {
+    add(name, 'variable', String(variables[name]))
+  }
+  if (program !== undefined) {
+    for (let reference of analyze(program, { functions, identifiers }).assigns) {
+      add(reference.name, 'variable', '')
+    }
+  }
+
+  let prefix = expr.substring(token.start!, offset).toLowerCase()
+  return {
+    range: { start: token.start!, end: token.end! + 1 },
+    items: items
+      .filter(item => item.name.toLowerCase().indexOf(prefix) === 0)
+      .sort((a, b) => a.name.toLowerCase() < b.name.toLowerCase() ? -1 : a.name.toLowerCase() > b.name.toLowerCase() ? 1 : 0)
+  }
+}
+
+/**
+ * Returns the signature of the innermost function call around the cursor, with the parameter of the
+ * argument being typed, or undefined outside of a call to a known function
+ */
+export function signatureHelp(expr: string, offset: number, context: TCompletionContext = {}): TSignatureHelp | undefined {
+  let functions = context.functions || builtIns.functions
+  let tokens = new Lexer().tokenize(expr)
+  // The brackets open at the cursor, with the function called for '(' after a name
+  let open: { callee: string | undefined, argument: number }[] = []
+  for (let i = 0; i < tokens.length && tokens[i].end! < offset; i += 1) {
+    let token = tokens[i]
+    if (token.type !== LexerTokens.operator) {
+      continue
+    }
+    if (token.value === '(' || token.value === '[') {
+      let previous = previousToken(tokens, i)
+      let call = token.value === '(' && previous !== undefined && previous.type === LexerTokens.identifier
+      open.push({ callee: call ? previous!.value : undefined, argument: 0 })
+    } else if (token.value === ')' || token.value === ']') {
+      open.pop()
+    } else if (token.value === ',' && open.length) {
+      open[open.length - 1].argument += 1
+    }
+  }
+
+  for (let i = open.length - 1; i >= 0; i -= 1) {
+    let name = open[i].callee
+    if (name === undefined) {
+      continue
+    }
+    let signature = functions.hasOwnProperty(name) ? signatureOf(functions[name]) : definitionSignature(expr, name, context)
+    if (signature === undefined) {
+      return undefined
+    }
+    let last = signature.params.length - 1
+    let activeParameter = last >= 0 && signature.params[last].variadic ? Math.min(open[i].argument, last) : open[i].argument
+    return { name, signature, label: formatSignature(name, signature), activeParameter }
+  }
+  return undefined
+}
+
+// The token before the one at [index], skipping whitespace
+function previousToken(tokens: TToken[], index: number): TToken | undefined {
+  for (let i = index - 1; i >= 0; i -= 1) {
+    if (tokens[i].type !== LexerTokens.whitespace) {
+      return tokens[i]
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parses an expression being typed with every error collected, or returns undefined past a limit
+ */
+export function parseTyped(expr: string, context: TCompletionContext): { program: TProgram, diagnostics: TDiagnostic[] } | undefined {
+  let parser = new Parser(context.functions || builtIns.functions, context.identifiers || builtIns.identifiers)
+  try {
+    return parser.parseTolerant(expr)
+  } catch (e) {
+    if (e instanceof LimitError) {
+      return undefined
+    }
+    throw e
+  }
+}
+
+function definedSignature(params: string[]): TSignature {
+  return { params: params.map(name => ({ name, type: 'value' })), pure: true, description: '', examples: [] }
+}
+
+// The signature of a function the expression defines
+function definitionSignature(expr: string, name: string, context: TCompletionContext): TSignature | undefined {
+  let parsed = parseTyped(expr, context)
+  let definition = parsed && parsed.program.body.find(statement => statement.type === 'FunctionDefinition' && statement.name.name === name)
+  return definition !== undefined && definition.type === 'FunctionDefinition' ? definedSignature(definition.params.map(param => param.name)) : undefined
+}
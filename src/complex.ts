@@ -0,0 +1,189 @@
+import {declare, signatureOf} from "./functions"
+
+/**
+ * A complex number [re] + [im]i. Results of the Evaluator without an imaginary part are plain numbers.
+ */
+export class Complex {
+  static readonly I = new Complex(0, 1)
+
+  constructor(readonly re: number, readonly im: number) {
+  }
+
+  public isZero(): boolean {
+    return this.re === 0 && this.im === 0
+  }
+
+  // The modulus |z|
+  public abs(): number {
+    return Math.hypot(this.re, this.im)
+  }
+
+  // The angle to the positive real axis, in (-pi, pi]
+  public arg(): number {
+    return Math.atan2(this.im, this.re)
+  }
+
+  public conj(): Complex {
+    return new Complex(this.re, -this.im)
+  }
+
+  public negate(): Complex {
+    return new Complex(-this.re, -this.im)
+  }
+
+  public add(other: Complex): Complex {
+    return new Complex(this.re + other.re, this.im + other.im)
+  }
+
+  public subtract(other: Complex): Complex {
+    return new Complex(this.re - other.re, this.im - other.im)
+  }
+
+  public multiply(other: Complex): Complex {
+    return new Complex(this.re * other.re - this.im * other.im, this.re * other.im + this.im * other.re)
+  }
+
+  public divide(other: Complex): Complex {
+    let denominator = other.re * other.re + other.im * other.im
+    return new Complex((this.re * other.re + this.im * other.im) / denominator,
+      (this.im * other.re - this.re * other.im) / denominator)
+  }
+
+  public power(exponent: Complex): Complex {
+    // Whole powers are multiplied out, so that eg. i^2 is exactly -1
+    if (exponent.im === 0 && Number.isInteger(exponent.re) && Math.abs(exponent.re) <= 1024) {
+      let result = new Complex(1, 0)
+      for (let i = 0; i < Math.abs(exponent.re); i += 1) {
+        result = result.multiply(this)
+      }
+      return exponent.re < 0 ? new Complex(1, 0).divide(result) : result
+    }
+    if (this.isZero()) {
+      return exponent.re > 0 ? new Complex(0, 0) : new Complex(NaN, NaN)
+    }
+    return exp(ln(this).multiply(exponent))
+  }
+
+  /**
+   * Writes the number as a + bi, leaving out a zero part, eg. 2 - i or 3i
+   */
+  public toString(): string {
+    let im = Math.abs(this.im) === 1 ? '' : String(Math.abs(this.im))
+    if (this.re === 0 && this.im !== 0) {
+      return (this.im < 0 ? '-' : '') + im + 'i'
+    }
+    if (this.im === 0) {
+      return String(this.re)
+    }
+    return String(this.re) + (this.im < 0 ? ' - ' : ' + ') + im + 'i'
+  }
+}
+
+// Functions which take complex arguments, the Evaluator refuses to pass them to any other
+export const complexAware = new WeakSet<Function>()
+
+/**
+ * Applies a binary operator to two values of which at least one is complex. Only equality
+ * is defined for complex numbers, so returns undefined for the other comparisons and '%'.
+ */
+export function complexOperation(operator: string, left: Complex, right: Complex): number | Complex | undefined {
+  switch (operator) {
+    case '+':
+      return toValue(left.add(right))
+    case '-':
+      return toValue(left.subtract(right))
+    case '*':
+      return toValue(left.multiply(right))
+    case '/':
+      return toValue(left.divide(right))
+    case '^':
+      return toValue(left.power(right))
+    case '==':
+      return left.re === right.re && left.im === right.im ? 1 : 0
+    case '!=':
+      return left.re !== right.re || left.im !== right.im ? 1 : 0
+    default:
+      return undefined
+  }
+}
+
+export function toComplex(value: number | Complex): Complex {
+  return typeof value === 'number' ? new Complex(value, 0) : value
+}
+
+// A result without an imaginary part is a plain number
+function toValue(value: Complex): number | Complex {
+  return value.im === 0 ? value.re : value
+}
+
+function exp(z: Complex): Complex {
+  let scale = Math.exp(z.re)
+  return new Complex(scale * Math.cos(z.im), scale * Math.sin(z.im))
+}
+
+function ln(z: Complex): Complex {
+  return new Complex(Math.log(z.abs()), z.arg())
+}
+
+function sqrt(z: Complex): Complex {
+  let r = z.abs()
+  // Halved before adding, which could overflow
+  let re = Math.sqrt(r / 2 + z.re / 2)
+  let im = Math.sqrt(r / 2 - z.re / 2)
+  return new Complex(re, z.im < 0 ? -im : im)
+}
+
+function sin(z: Complex): Complex {
+  return new Complex(Math.sin(z.re) * Math.cosh(z.im), Math.cos(z.re) * Math.sinh(z.im))
+}
+
+function cos(z: Complex): Complex {
+  return new Complex(Math.cos(z.re) * Math.cosh(z.im), -Math.sin(z.re) * Math.sinh(z.im))
+}
+
+// asin(z) = -i ln(iz + sqrt(1 - z^2))
+function asin(z: Complex): Complex {
+  let root = sqrt(new Complex(1, 0).subtract(z.multiply(z)))
+  let w = ln(Complex.I.multiply(z).add(root))
+  return new Complex(w.im, -w.re)
+}
+
+// Real arguments inside the domain of the real function give exactly its result. The description
+// is the real function's unless given.
+function complexFunction(real: (x: number) => number, domain: (x: number) => boolean, complex: (z: Complex) => Complex,
+                         example: string, description = signatureOf(real).description): (z: number | Complex) => number | Complex {
+  let fn = (z: number | Complex) => typeof z === 'number' && domain(z) ? real(z) : toValue(complex(toComplex(z)))
+  complexAware.add(fn)
+  return declare(fn, { params: [{ name: 'x', type: 'complex' }], pure: true, description, examples: [example] })
+}
+
+function always(): boolean {
+  return true
+}
+
+/**
+ * The built-in functions for complex numbers, eg. sqrt(-1) is i. Pass them with complexBuiltIns.identifiers,
+ * which add the imaginary unit i, to the Evaluator.
+ */
+export const complexFunctions: { [name: string]: (z: number | Complex) => number | Complex } = {
+  sqrt: complexFunction(Math.sqrt, x => x >= 0, sqrt, 'sqrt(-4)'),
+  ln: complexFunction(Math.log, x => x >= 0, ln, 'ln(-1)'),
+  exp: complexFunction(Math.exp, always, exp, 'exp(i * pi)'),
+  sin: complexFunction(Math.sin, always, sin, 'sin(i)'),
+  cos: complexFunction(Math.cos, always, cos, 'cos(i)'),
+  tan: complexFunction(Math.tan, always, z => sin(z).divide(cos(z)), 'tan(i)'),
+  asin: complexFunction(Math.asin, x => x >= -1 && x <= 1, asin, 'asin(2)'),
+  acos: complexFunction(Math.acos, x => x >= -1 && x <= 1, z => new Complex(Math.PI / 2, 0).subtract(asin(z)), 'acos(2)'),
+  // atan(z) = i/2 (ln(1 - iz) - ln(1 + iz))
+  atan: complexFunction(Math.atan, always, z => {
+    let iz = Complex.I.multiply(z)
+    let w = ln(new Complex(1, 0).subtract(iz)).subtract(ln(new Complex(1, 0).add(iz)))
+    return new Complex(-w.im / 2, w.re / 2)
+  }, 'atan(2i)'),
+  abs: complexFunction(Math.abs, always, z => new Complex(z.abs(), 0), 'abs(3 + 4i)', 'The absolute value, or modulus, of x'),
+  arg: complexFunction(x => x < 0 ? Math.PI : 0, always, z => new Complex(z.arg(), 0), 'arg(1 + i)',
+    'The angle of x to the positive real axis, in radians'),
+  re: complexFunction(x => x, always, z => new Complex(z.re, 0), 're(3 + 4i)', 'The real part of x'),
+  im: complexFunction(() => 0, always, z => new Complex(z.im, 0), 'im(3 + 4i)', 'The imaginary part of x'),
+  conj: complexFunction(x => x, always, z => z.conj(), 'conj(3 + 4i)', 'The complex conjugate of x'),
+}
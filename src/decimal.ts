@@ -0,0 +1,295 @@
+import {NumericBackend} from "./tapDigit"
+
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TEN = BigInt(10)
+
+// How results are cut down to the precision, named as in IEEE 754 and java.math.RoundingMode
+export type TRoundingMode = 'half-even' | 'half-up' | 'half-down' | 'up' | 'down' | 'ceiling' | 'floor'
+
+/**
+ * An exact decimal number, [coefficient] * 10^[exponent], eg. 0.3 as 3 * 10^-1
+ */
+export class Decimal {
+  readonly coefficient: bigint
+  readonly exponent: number
+
+  constructor(coefficient: bigint, exponent: number) {
+    // Trailing zeros are dropped, so that every number has one representation
+    while (coefficient !== ZERO && coefficient % TEN === ZERO) {
+      coefficient /= TEN
+      exponent += 1
+    }
+    this.coefficient = coefficient
+    this.exponent = coefficient === ZERO ? 0 : exponent
+  }
+
+  /**
+   * Reads a number as the Lexer scans it, eg. 12, .5 or 1.5e-3, or with a sign, and undefined for anything else
+   */
+  public static parse(raw: string): Decimal | undefined {
+    let match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(raw)
+    if (match === null || (match[2] + (match[3] || '')) === '') {
+      return undefined
+    }
+    let fraction = match[3] || ''
+    return new Decimal(BigInt(match[1] + match[2] + fraction), Number(match[4] || 0) - fraction.length)
+  }
+
+  public isZero(): boolean {
+    return this.coefficient === ZERO
+  }
+
+  public isInteger(): boolean {
+    return this.exponent >= 0
+  }
+
+  public negate(): Decimal {
+    return new Decimal(-this.coefficient, this.exponent)
+  }
+
+  public magnitude(): Decimal {
+    return this.coefficient < ZERO ? this.negate() : this
+  }
+
+  public compare(other: Decimal): number {
+    let difference = subtract(this, other).coefficient
+    return difference < ZERO ? -1 : difference > ZERO ? 1 : 0
+  }
+
+  public toNumber(): number {
+    return Number(this.toString())
+  }
+
+  /**
+   * Writes the number like JavaScript does, in exponential notation only when it is very large or small
+   */
+  public toString(): string {
+    let sign = this.coefficient < ZERO ? '-' : ''
+    let digits = (this.coefficient < ZERO ? -this.coefficient : this.coefficient).toString()
+    let adjusted = digits.length - 1 + this.exponent
+    if (adjusted >= 21 || adjusted < -7) {
+      let mantissa = digits.length > 1 ? digits.charAt(0) + '.' + digits.slice(1) : digits
+      return sign + mantissa + 'e' + (adjusted >= 0 ? '+' : '') + adjusted
+    }
+    if (this.exponent >= 0) {
+      return sign + digits + '0'.repeat(this.exponent)
+    }
+    let point = digits.length + this.exponent
+    return sign + (point > 0 ? digits.slice(0, point) + '.' + digits.slice(point) : '0.' + '0'.repeat(-point) + digits)
+  }
+}
+
+/**
+ * Arbitrary-precision decimal arithmetic for the Evaluator, eg. 0.1 + 0.2 is exactly 0.3.
+ * Results are rounded to [precision] significant digits; only division, and powers with
+ * a negative or fractional exponent, can need more. Functions and units work on floats.
+ */
+export class DecimalBackend implements NumericBackend<Decimal> {
+
+  constructor(
+    public precision = 34,
+    public rounding: TRoundingMode = 'half-even') {
+  }
+
+  public parse(raw: string): Decimal | number {
+    let value = Decimal.parse(raw)
+    return value === undefined ? parseFloat(raw) : this.round(value)
+  }
+
+  public isValue(value: unknown): value is Decimal {
+    return value instanceof Decimal
+  }
+
+  // Goes through the shortest string which reads back as the same float, so 0.1 becomes exactly 0.1
+  public fromNumber(value: number): Decimal | number {
+    return isFinite(value) ? this.parse(String(value)) : value
+  }
+
+  public toNumber(value: Decimal): number {
+    return value.toNumber()
+  }
+
+  public binary(operator: string, left: Decimal, right: Decimal): Decimal | number {
+    switch (operator) {
+      case '+':
+        return this.round(add(left, right, this.precision))
+      case '-':
+        return this.round(subtract(left, right, this.precision))
+      case '*':
+        return this.round(new Decimal(left.coefficient * right.coefficient, left.exponent + right.exponent))
+      case '/':
+        return this.divide(left, right)
+      case '%': {
+        // Like JavaScript, the remainder takes the sign of the dividend
+        if (right.isZero()) {
+          return NaN
+        }
+        if (left.exponent >= right.exponent) {
+          // 10^gap is taken modulo the divisor, so a large exponent gap costs no more than a few digits
+          let factor = modPow(TEN, left.exponent - right.exponent, right.coefficient < ZERO ? -right.coefficient : right.coefficient)
+          return this.round(new Decimal(left.coefficient * factor % right.coefficient, right.exponent))
+        }
+        // A dividend smaller than the divisor is the remainder, otherwise its digits bound the gap
+        if (left.magnitude().compare(right.magnitude()) < 0) {
+          return this.round(left)
+        }
+        return this.round(new Decimal(left.coefficient % scale(right, left.exponent), left.exponent))
+      }
+      case '^':
+        return this.power(left, right)
+      case '<':
+        return left.compare(right) < 0 ? 1 : 0
+      case '<=':
+        return left.compare(right) <= 0 ? 1 : 0
+      case '>':
+        return left.compare(right) > 0 ? 1 : 0
+      case '>=':
+        return left.compare(right) >= 0 ? 1 : 0
+      case '==':
+        return left.compare(right) === 0 ? 1 : 0
+      case '!=':
+        return left.compare(right) !== 0 ? 1 : 0
+      default:
+        return NaN
+    }
+  }
+
+  public unary(operator: string, value: Decimal): Decimal | number {
+    switch (operator) {
+      case '+':
+        return value
+      case '-':
+        return value.negate()
+      case '!':
+        return value.isZero() ? 1 : 0
+      default:
+        return NaN
+    }
+  }
+
+  /**
+   * Cuts the number down to the precision, following the rounding mode
+   */
+  public round(value: Decimal): Decimal {
+    let negative = value.coefficient < ZERO
+    let magnitude = negative ? -value.coefficient : value.coefficient
+    let drop = magnitude.toString().length - this.precision
+    if (drop <= 0) {
+      return value
+    }
+    let divisor = powerOfTen(drop)
+    let kept = magnitude / divisor
+    let rest = magnitude % divisor
+    if (rest !== ZERO && this.roundsUp(kept, rest * BigInt(2) - divisor, negative)) {
+      kept += ONE
+    }
+    return new Decimal(negative ? -kept : kept, value.exponent + drop)
+  }
+
+  // Whether to round the magnitude up, given the sign of what's dropped compared to a half
+  private roundsUp(kept: bigint, halfComparison: bigint, negative: boolean): boolean {
+    switch (this.rounding) {
+      case 'up':
+        return true
+      case 'down':
+        return false
+      case 'ceiling':
+        return !negative
+      case 'floor':
+        return negative
+      case 'half-up':
+        return halfComparison >= ZERO
+      case 'half-down':
+        return halfComparison > ZERO
+      default:
+        return halfComparison > ZERO || (halfComparison === ZERO && kept % BigInt(2) === ONE)
+    }
+  }
+
+  private divide(left: Decimal, right: Decimal): Decimal | number {
+    if (right.isZero()) {
+      return left.isZero() ? NaN : (left.coefficient < ZERO) === (right.coefficient < ZERO) ? Infinity : -Infinity
+    }
+    // Enough digits for the precision and one more, plus a last digit telling whether anything was left over
+    let shift = Math.max(0, this.precision + 2 + digitCount(right) - digitCount(left))
+    let numerator = left.coefficient * powerOfTen(shift)
+    let quotient = numerator / right.coefficient
+    let negative = (numerator < ZERO) !== (right.coefficient < ZERO)
+    let sticky = numerator % right.coefficient === ZERO ? ZERO : negative ? -ONE : ONE
+    return this.round(new Decimal(quotient * TEN + sticky, left.exponent - right.exponent - shift - 1))
+  }
+
+  private power(base: Decimal, exponent: Decimal): Decimal | number {
+    // Whole exponents are multiplied out, anything else is left to floats
+    if (!exponent.isInteger() || exponent.toNumber() > 1e6 || exponent.toNumber() < -1e6) {
+      return this.fromNumber(Math.pow(base.toNumber(), exponent.toNumber()))
+    }
+    let count = Math.abs(exponent.toNumber())
+    let result = new Decimal(ONE, 0)
+    let factor = base
+    while (count > 0) {
+      if (count % 2 === 1) {
+        result = this.round(new Decimal(result.coefficient * factor.coefficient, result.exponent + factor.exponent))
+      }
+      factor = this.round(new Decimal(factor.coefficient * factor.coefficient, factor.exponent * 2))
+      count = Math.floor(count / 2)
+    }
+    return exponent.coefficient < ZERO ? this.divide(new Decimal(ONE, 0), result) : result
+  }
+}
+
+function powerOfTen(exponent: number): bigint {
+  return BigInt('1' + '0'.repeat(exponent))
+}
+
+function digitCount(value: Decimal): number {
+  return (value.coefficient < ZERO ? -value.coefficient : value.coefficient).toString().length
+}
+
+// The coefficient of the value written with the given, smaller or equal, exponent
+function scale(value: Decimal, exponent: number): bigint {
+  return value.coefficient * powerOfTen(value.exponent - exponent)
+}
+
+// Like Math.pow() modulo [modulus], by squaring
+function modPow(base: bigint, exponent: number, modulus: bigint): bigint {
+  let result = ONE % modulus
+  base %= modulus
+  while (exponent > 0) {
+    if (exponent % 2 === 1) {
+      result = result * base % modulus
+    }
+    base = base * base % modulus
+    exponent = Math.floor(exponent / 2)
+  }
+  return result
+}
+
+// The exponent just above the top digit, eg. 3 for 123 and -1 for 0.05
+function top(value: Decimal): number {
+  return value.exponent + digitCount(value)
+}
+
+/**
+ * Adds exactly as far as rounding the sum to [precision] digits goes. An operand wholly below the
+ * digits of the other and the rounding digit past the precision only decides the rounding, by its sign,
+ * so it stands in as a single digit there; otherwise 1e400000 + 1 would be added with 400000 digits.
+ */
+function add(left: Decimal, right: Decimal, precision = 0): Decimal {
+  if (left.isZero() || right.isZero()) {
+    return left.isZero() ? right : left
+  }
+  let large = top(left) >= top(right) ? left : right
+  let small = large === left ? right : left
+  let cutoff = Math.min(large.exponent, top(large) - precision - 2)
+  if (top(small) <= cutoff) {
+    small = new Decimal(small.coefficient < ZERO ? -ONE : ONE, cutoff - 1)
+  }
+  let exponent = Math.min(large.exponent, small.exponent)
+  return new Decimal(scale(large, exponent) + scale(small, exponent), exponent)
+}
+
+function subtract(left: Decimal, right: Decimal, precision = 0): Decimal {
+  return add(left, right.negate(), precision)
+}
@@ -26,7 +26,8 @@
   THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
 */
 
-import {Evaluator, Parser, Lexer, builtIns} from "../tapDigit.js"
+import {Evaluator, Parser, Lexer, builtIns, children, TNode} from "../tapDigit.js"
+import {print} from "../printer.js"
 
 let lexerTableId: number|undefined
 let parserTreeId: number|undefined
@@ -75,38 +76,37 @@ export function updateParserTree(): void {
   parserTreeId = window.setTimeout(function () {
     let expr = (document.getElementById('code') as HTMLInputElement).value
     let syntaxPreEl = document.getElementById('syntax') as HTMLElement
+    let formattedEl = document.getElementById('formatted') as HTMLElement
     try {
-      function stringify(object: {[x:string]:any}, key: string, depth: number) {
-        let str = ''
-        let value = object[key]
+      function stringify(node: TNode, depth: number): string {
         let indent = '&nbsp;'.repeat(depth*2)
-
-        let _typeof: string = (value === null) ? 'null' : typeof value
-        switch (_typeof) {
-          case 'string':
-            str = value
+        let str = `${indent} <span class="node">${node.type}</span>`
+        switch (node.type) {
+          case 'NumberLiteral':
+            str += ` ${node.raw}`
             break
-          case 'number':
-          case 'boolean':
-          case 'null':
-            str = String(value)
+          case 'Identifier':
+            str += ` ${node.name}`
             break
-          case 'object':
-            for (let i in value) {
-              if (value.hasOwnProperty(i)) {
-                str += ('<br>' + stringify(value, i, depth + 1))
-              }
-            }
+          case 'UnaryExpression':
+          case 'BinaryExpression':
+          case 'LogicalExpression':
+            str += ` ${node.operator}`
             break
         }
-        return `${indent} <span class="${key}">${key}</span>: ${str}`
+        str += ` <span class="range">[${node.range.start}, ${node.range.end})</span>`
+        for (let child of children(node)) {
+          str += '<br>' + stringify(child, depth + 1)
+        }
+        return str
       }
 
       let syntax = parser.parse(expr)
-      syntaxPreEl.innerHTML = stringify(syntax, 'Expression', 0)
-      console.log('id',parser)
+      syntaxPreEl.innerHTML = stringify(syntax, 0)
+      formattedEl.textContent = print(syntax)
     } catch (e) {
       syntaxPreEl.innerText = e.message
+      formattedEl.textContent = 'N/A'
     }
     parserTreeId = undefined
   }, 345)
@@ -122,8 +122,8 @@ export function updateEvalResult(): void {
     let expr = (document.getElementById('code') as HTMLInputElement).value
     let el = document.getElementById('result') as HTMLElement
     try {
-      let result = evaluator.evaluate(expr)
-      el.textContent = result ? result.toString() : 'N/A'
+      let results = evaluator.evaluateAll(expr)
+      el.textContent = results.length ? results.join('\n') : 'N/A'
     } catch (e) {
       el.textContent = e.message
     }
@@ -0,0 +1,376 @@
+import {
+  DiagnosticError, ErrorCode, LimitError, TDiagnostic, TExpression, TNode, TNumberLiteral, TProgram, TRange, children,
+  createDiagnostic
+} from "./tapDigit"
+
+export type TDerivativeOptions = {
+  // The most nodes the derivative of a statement may have, written out, defaults to 100000
+  maxSize?: number
+}
+
+export class DerivativeError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+// The derivative of a statement has more nodes than TDerivativeOptions.maxSize
+export class SizeLimitError extends LimitError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+/**
+ * Returns the derivative of the expression with respect to the variable, as a new tree
+ * which the Evaluator can evaluate. Every statement of a program gives the derivative of its value,
+ * where variables assigned before stand for the values assigned, eg. the derivative of y = x^2; y + x
+ * is 2 * x; 2 * x + 1. Nodes made up for the result take the source range of the node they were derived from.
+ * As every variable stands for all of its value, the derivative of a long chain of assignments may grow
+ * exponentially; a statement whose derivative, written out, would exceed the maxSize of the options raises
+ * a SizeLimitError.
+ */
+export function derivative(ast: TProgram, variable: string, options?: TDerivativeOptions): TProgram
+export function derivative(ast: TExpression, variable: string, options?: TDerivativeOptions): TExpression
+export function derivative(ast: TProgram | TExpression, variable: string, options: TDerivativeOptions = {}): TProgram | TExpression {
+  let maxSize = options.maxSize !== undefined ? options.maxSize : 100000
+  let values: { [name: string]: TExpression } = {}
+
+  // The values assigned are shared, not copied, so the size is checked before differentiate() goes through them
+  function statement(node: TExpression): TExpression {
+    let inlined = checkSize(inline(node, values), node.range)
+    return checkSize(differentiate(inlined, variable), node.range)
+  }
+
+  function checkSize(node: TExpression, range: TRange): TExpression {
+    if (sizeOf(node, new Map()) > maxSize) {
+      throw new SizeLimitError(createDiagnostic(ErrorCode.SizeExceeded, 'error', range, { limit: maxSize }))
+    }
+    return node
+  }
+
+  if (ast.type === 'Program') {
+    return { ...ast, body: ast.body.map(statement) }
+  }
+  return statement(ast)
+}
+
+// The number of nodes of the tree written out, counting every sub-tree it shares as often as it appears
+function sizeOf(node: TNode, sizes: Map<TNode, number>): number {
+  let size = sizes.get(node)
+  if (size === undefined) {
+    size = children(node).reduce((sum, child) => sum + sizeOf(child, sizes), 1)
+    sizes.set(node, size)
+  }
+  return size
+}
+
+// Replaces the variables assigned before with the values assigned, so that the derivative goes through them,
+// and records the assignments of the node in [values] for the statements after it
+function inline(node: TExpression, values: { [name: string]: TExpression }): TExpression {
+  switch (node.type) {
+    case 'Identifier':
+      return values.hasOwnProperty(node.name) ? values[node.name] : node
+    case 'UnaryExpression':
+      return { ...node, argument: inline(node.argument, values) }
+    case 'BinaryExpression': {
+      let left = inline(node.left, values)
+      return { ...node, left, right: inline(node.right, values) }
+    }
+    // Assignments which may not happen, on the right of && and || or in one branch, count only there
+    case 'LogicalExpression': {
+      let left = inline(node.left, values)
+      return { ...node, left, right: inline(node.right, { ...values }) }
+    }
+    case 'ConditionalExpression': {
+      let test = inline(node.test, values)
+      return { ...node, test, consequent: inline(node.consequent, { ...values }), alternate: inline(node.alternate, { ...values }) }
+    }
+    case 'AssignmentExpression': {
+      let value = inline(node.value, values)
+      values[node.name.name] = value
+      return { ...node, value }
+    }
+    case 'CallExpression':
+      return { ...node, arguments: node.arguments.map(argument => inline(argument, values)) }
+    case 'ConversionExpression':
+      return { ...node, value: inline(node.value, values) }
+    case 'ArrayExpression':
+      return { ...node, elements: node.elements.map(element => inline(element, values)) }
+    case 'IndexExpression': {
+      let object = inline(node.object, values)
+      return { ...node, object, index: inline(node.index, values) }
+    }
+    default:
+      // Literals, errors, and definitions, whose parameters hide the variables
+      return node
+  }
+}
+
+function differentiate(node: TExpression, variable: string): TExpression {
+  let at = node.range
+
+  switch (node.type) {
+    case 'NumberLiteral':
+    case 'QuantityLiteral':
+    case 'ImaginaryLiteral':
+      return num(0, at)
+
+    case 'Identifier':
+      return num(node.name === variable ? 1 : 0, at)
+
+    case 'UnaryExpression':
+      switch (node.operator) {
+        case '+':
+          return differentiate(node.argument, variable)
+        case '-':
+          return neg(differentiate(node.argument, variable), at)
+        default:
+          // Logical operators give 0 or 1, which is constant almost everywhere
+          return num(0, at)
+      }
+
+    case 'BinaryExpression': {
+      let u = node.left
+      let v = node.right
+      let du = differentiate(u, variable)
+      let dv = differentiate(v, variable)
+      switch (node.operator) {
+        case '+':
+          return add(du, dv, at)
+        case '-':
+          return sub(du, dv, at)
+        case '*':
+          return add(mul(du, v, at), mul(u, dv, at), at)
+        case '/':
+          return div(sub(mul(du, v, at), mul(u, dv, at), at), pow(v, num(2, at), at), at)
+        case '%':
+          // u % v = u - v * floor(u / v), where floor() is constant almost everywhere
+          return sub(du, mul(dv, call('floor', [div(u, v, at)], at), at), at)
+        case '^':
+          if (isNumber(dv, 0)) {
+            return mul(mul(v, pow(u, sub(v, num(1, at), at), at), at), du, at)
+          }
+          if (isNumber(du, 0)) {
+            return mul(mul(pow(u, v, at), call('ln', [u], at), at), dv, at)
+          }
+          return mul(pow(u, v, at), add(mul(dv, call('ln', [u], at), at), div(mul(v, du, at), u, at), at), at)
+        default:
+          // Comparisons give 0 or 1, which is constant almost everywhere
+          return num(0, at)
+      }
+    }
+
+    case 'LogicalExpression':
+      return num(0, at)
+
+    case 'ConditionalExpression':
+      return {
+        type: 'ConditionalExpression',
+        test: node.test,
+        consequent: differentiate(node.consequent, variable),
+        alternate: differentiate(node.alternate, variable),
+        range: at
+      }
+
+    case 'AssignmentExpression':
+      // The value of an assignment is the value assigned
+      return differentiate(node.value, variable)
+
+    case 'CallExpression': {
+      let name = node.callee.name
+      if (!derivatives.hasOwnProperty(name)) {
+        throw notDifferentiable(`function "${name}()"`, at)
+      }
+      return derivatives[name](node.arguments, node.arguments.map(argument => differentiate(argument, variable)), at)
+    }
+
+    case 'ConversionExpression':
+      throw notDifferentiable('a unit conversion', at)
+
+    // Vectors and matrices are differentiated element by element
+    case 'ArrayExpression':
+      return { ...node, elements: node.elements.map(element => differentiate(element, variable)) }
+
+    case 'IndexExpression':
+      return { ...node, object: differentiate(node.object, variable) }
+
+    case 'FunctionDefinition':
+      throw notDifferentiable(`the definition of "${node.name.name}()"`, at)
+
+    case 'Error':
+      throw notDifferentiable('an expression with errors', at)
+  }
+}
+
+// The derivative of a call of a built-in function, from its arguments and their derivatives
+type TRule = (args: TExpression[], derivatives: TExpression[], at: TRange) => TExpression
+
+// The chain rule for a function of one argument, from the derivative of f(u) with respect to u
+function chain(rule: (u: TExpression, at: TRange) => TExpression): TRule {
+  return (args, derivatives, at) => mul(rule(args[0], at), derivatives[0], at)
+}
+
+// For functions which are constant almost everywhere, eg. floor()
+const constant: TRule = (args, derivatives, at) => num(0, at)
+
+// The rule of a product such as dot(u, v), which is linear in each argument
+function product(name: string): TRule {
+  return ([u, v], [du, dv], at) =>
+    add(isNumber(du, 0) ? du : call(name, [du, v], at), isNumber(dv, 0) ? dv : call(name, [u, dv], at), at)
+}
+
+// The rule of min() or max(): the derivative of the argument which is the smallest or largest
+function extremum(name: string): TRule {
+  return (args, derivatives, at) => {
+    let values = elements(args)
+    let slopes = elements(derivatives)
+    if (slopes.every(slope => isNumber(slope, 0))) {
+      return num(0, at)
+    }
+    let result = slopes[slopes.length - 1]
+    for (let i = values.length - 2; i >= 0; i -= 1) {
+      let test = binary('==', values[i], call(name, args, at), at)
+      result = { type: 'ConditionalExpression', test, consequent: slopes[i], alternate: result, range: at }
+    }
+    return result
+  }
+}
+
+// The arguments of a function taking any number of values, with the elements of vectors written out
+// in their place. The derivative of a vector written out is one as well, so both line up.
+function elements(args: TExpression[]): TExpression[] {
+  return args.reduce((list: TExpression[], arg) => list.concat(arg.type === 'ArrayExpression' ? elements(arg.elements) : [arg]), [])
+}
+
+// The derivative of each built-in function
+const derivatives: { [name: string]: TRule } = {
+  abs: chain((u, at) => div(u, call('abs', [u], at), at)),
+  acos: chain((u, at) => neg(div(num(1, at), call('sqrt', [sub(num(1, at), pow(u, num(2, at), at), at)], at), at), at)),
+  asin: chain((u, at) => div(num(1, at), call('sqrt', [sub(num(1, at), pow(u, num(2, at), at), at)], at), at)),
+  atan: chain((u, at) => div(num(1, at), add(num(1, at), pow(u, num(2, at), at), at), at)),
+  ceil: constant,
+  cos: chain((u, at) => neg(call('sin', [u], at), at)),
+  exp: chain((u, at) => call('exp', [u], at)),
+  floor: constant,
+  ln: chain((u, at) => div(num(1, at), u, at)),
+  sin: chain((u, at) => call('cos', [u], at)),
+  sqrt: chain((u, at) => div(num(1, at), mul(num(2, at), call('sqrt', [u], at), at), at)),
+  tan: chain((u, at) => div(num(1, at), pow(call('cos', [u], at), num(2, at), at), at)),
+  random: constant,
+  round: constant,
+  // log(u, b) = ln(u) / ln(b), with b 10 by default
+  log: ([u, base], [du, dbase], at) => {
+    let lnBase = call('ln', [base || num(10, at)], at)
+    return sub(
+      div(du, mul(u, lnBase, at), at),
+      div(mul(call('ln', [u], at), dbase || num(0, at), at), mul(base || num(10, at), pow(lnBase, num(2, at), at), at), at), at)
+  },
+  dot: product('dot'),
+  cross: product('cross'),
+  transpose: ([m], [dm], at) => isNumber(dm, 0) ? dm : call('transpose', [dm], at),
+  // (M^-1)' = -M^-1 * M' * M^-1
+  inv: ([m], [dm], at) => isNumber(dm, 0) ? dm : neg(mul(mul(call('inv', [m], at), dm, at), call('inv', [m], at), at), at),
+  // The sum over the rows of the determinant with that row differentiated, for a matrix written out row by row
+  det: ([m], [dm], at) => {
+    if (isNumber(dm, 0)) {
+      return dm
+    }
+    if (m.type !== 'ArrayExpression' || dm.type !== 'ArrayExpression' ||
+        !m.elements.every(row => row.type === 'ArrayExpression')) {
+      throw notDifferentiable('the determinant of a matrix not written out row by row', at)
+    }
+    let rows = m.elements
+    let slopes = dm.elements
+    return rows.reduce((sum: TExpression, row, i) => elements([slopes[i]]).every(slope => isNumber(slope, 0)) ? sum :
+      add(sum, call('det', [{ ...m, elements: rows.map((other, j) => j === i ? slopes[i] : other) }], at), at), num(0, at))
+  },
+  sum: (args, derivatives, at) => {
+    let terms = derivatives.filter(slope => !isNumber(slope, 0))
+    return terms.length ? call('sum', terms, at) : num(0, at)
+  },
+  // An argument with no derivative keeps its place as 0 * u, so that every element of a vector still counts
+  mean: (args, derivatives, at) => derivatives.every(slope => isNumber(slope, 0)) ? num(0, at) :
+    call('mean', derivatives.map((slope, i) => isNumber(slope, 0) ? binary('*', slope, args[i], at) : slope), at),
+  min: extremum('min'),
+  max: extremum('max'),
+  // hypot(u1, u2, ...)' = (u1 * u1' + u2 * u2' + ...) / hypot(u1, u2, ...)
+  hypot: (args, derivatives, at) => {
+    let slopes = elements(derivatives)
+    let terms = elements(args).map((u, i) => mul(u, slopes[i], at))
+    return div(terms.reduce((sum, term) => add(sum, term, at), num(0, at)), call('hypot', args, at), at)
+  },
+  len: constant,
+}
+
+function notDifferentiable(what: string, range: TRange): DerivativeError {
+  return new DerivativeError(createDiagnostic(ErrorCode.NotDifferentiable, 'error', range, { what }))
+}
+
+// The builders below apply the simplifications which keep derivatives readable,
+// eg. 0 * u = 0 and 1 * u = u, and fold operations on two numbers.
+
+function num(value: number, at: TRange): TNumberLiteral {
+  return { type: 'NumberLiteral', value, raw: String(value), range: at }
+}
+
+function isNumber(node: TExpression, value?: number): node is TNumberLiteral {
+  return node.type === 'NumberLiteral' && (value === undefined || node.value === value)
+}
+
+function binary(operator: string, left: TExpression, right: TExpression, at: TRange): TExpression {
+  return { type: 'BinaryExpression', operator, left, right, range: at }
+}
+
+function add(left: TExpression, right: TExpression, at: TRange): TExpression {
+  if (isNumber(left) && isNumber(right)) return num(left.value + right.value, at)
+  if (isNumber(left, 0)) return right
+  if (isNumber(right, 0)) return left
+  return binary('+', left, right, at)
+}
+
+function sub(left: TExpression, right: TExpression, at: TRange): TExpression {
+  if (isNumber(left) && isNumber(right)) return num(left.value - right.value, at)
+  if (isNumber(right, 0)) return left
+  if (isNumber(left, 0)) return neg(right, at)
+  return binary('-', left, right, at)
+}
+
+function mul(left: TExpression, right: TExpression, at: TRange): TExpression {
+  if (isNumber(left) && isNumber(right)) return num(left.value * right.value, at)
+  if (isNumber(left, 0) || isNumber(right, 0)) return num(0, at)
+  if (isNumber(left, 1)) return right
+  if (isNumber(right, 1)) return left
+  if (isNumber(left, -1)) return neg(right, at)
+  if (isNumber(right, -1)) return neg(left, at)
+  return binary('*', left, right, at)
+}
+
+function div(left: TExpression, right: TExpression, at: TRange): TExpression {
+  if (isNumber(left) && isNumber(right) && right.value !== 0) return num(left.value / right.value, at)
+  if (isNumber(left, 0)) return num(0, at)
+  if (isNumber(right, 1)) return left
+  return binary('/', left, right, at)
+}
+
+function pow(left: TExpression, right: TExpression, at: TRange): TExpression {
+  if (isNumber(left) && isNumber(right)) return num(Math.pow(left.value, right.value), at)
+  if (isNumber(right, 0)) return num(1, at)
+  if (isNumber(right, 1)) return left
+  return binary('^', left, right, at)
+}
+
+function neg(argument: TExpression, at: TRange): TExpression {
+  if (isNumber(argument)) return num(-argument.value, at)
+  if (argument.type === 'UnaryExpression' && argument.operator === '-') return argument.argument
+  return { type: 'UnaryExpression', operator: '-', argument, range: at }
+}
+
+function call(name: string, args: TExpression[], at: TRange): TExpression {
+  return {
+    type: 'CallExpression',
+    callee: { type: 'Identifier', name, range: at },
+    arguments: args,
+    range: at
+  }
+}
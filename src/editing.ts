@@ -0,0 +1,209 @@
+// The selection runs from [anchor], where it started, to [focus], where the cursor is; both are equal without one
+export type TSelection = { anchor: number, focus: number }
+
+// How an edit goes into the undo history: typing and deleting in a row make one step, anything else a step of its own
+export type TEditKind = 'typing' | 'deleting' | 'other'
+
+type TSnapshot = { text: string, selection: TSelection }
+type THistoryEntry = { before: TSnapshot, after: TSnapshot, kind: TEditKind }
+
+/**
+ * Makes text fit on the one line of an expression: line breaks and tabs become spaces, other control
+ * characters are dropped, and typographic minus, times and division signs become -, * and /
+ */
+export function sanitize(text: string): string {
+  return text
+    .replace(/(\r\n|\r|\n)+$/, '')
+    .replace(/\r\n|[\r\n\t\u00A0]/g, ' ')
+    .replace(/[\u0000-\u001F\u007F]/g, '')
+    .replace(/[\u2212\u2013]/g, '-')
+    .replace(/[\u00D7\u22C5]/g, '*')
+    .replace(/\u00F7/g, '/')
+}
+
+// Where moving by a word from [offset] ends: past any spaces, then past a run of name characters or of other ones
+function wordBoundary(text: string, offset: number, direction: number): number {
+  let next = (at: number) => direction < 0 ? text.charAt(at - 1) : text.charAt(at)
+  let inside = (at: number) => direction < 0 ? at > 0 : at < text.length
+  while (inside(offset) && /\s/.test(next(offset))) {
+    offset += direction
+  }
+  let word = /[\w.]/.test(next(offset))
+  while (inside(offset) && !/\s/.test(next(offset)) && /[\w.]/.test(next(offset)) === word) {
+    offset += direction
+  }
+  return offset
+}
+
+/**
+ * The text of the Editor with its selection and undo history. Every change of the text goes through
+ * replace(), which records it; listeners of onChange() hear about each change, including undo and redo.
+ */
+export class EditBuffer {
+  public selection: TSelection = { anchor: 0, focus: 0 }
+  // The most steps undo() goes back
+  public maxHistory = 100
+  private undoStack: THistoryEntry[] = []
+  private redoStack: THistoryEntry[] = []
+  // Whether the next typing or deleting may join the last step
+  private grouping = false
+  private listeners: ((text: string) => void)[] = []
+
+  constructor(public text = '') {
+  }
+
+  get start(): number {
+    return Math.min(this.selection.anchor, this.selection.focus)
+  }
+
+  get end(): number {
+    return Math.max(this.selection.anchor, this.selection.focus)
+  }
+
+  public selectedText(): string {
+    return this.text.substring(this.start, this.end)
+  }
+
+  /**
+   * Replaces the text and forgets the history, without telling the listeners
+   */
+  public reset(text: string): void {
+    this.text = text
+    this.selection = { anchor: text.length, focus: text.length }
+    this.undoStack = []
+    this.redoStack = []
+    this.grouping = false
+  }
+
+  public select(anchor: number, focus = anchor): void {
+    let clamp = (offset: number) => Math.max(0, Math.min(offset, this.text.length))
+    this.selection = { anchor: clamp(anchor), focus: clamp(focus) }
+    this.grouping = false
+  }
+
+  public selectAll(): void {
+    this.select(0, this.text.length)
+  }
+
+  /**
+   * Moves the cursor by a character or a word, or past the selection when there is one,
+   * or else extends the selection
+   */
+  public move(direction: -1 | 1, extend = false, byWord = false): void {
+    let focus = this.selection.focus
+    if (!extend && this.start !== this.end && !byWord) {
+      this.select(direction < 0 ? this.start : this.end)
+      return
+    }
+    focus = byWord ? wordBoundary(this.text, focus, direction) : focus + direction
+    this.select(extend ? this.selection.anchor : focus, focus)
+  }
+
+  // Moves the cursor to the start or end of the text
+  public moveToEdge(direction: -1 | 1, extend = false): void {
+    let focus = direction < 0 ? 0 : this.text.length
+    this.select(extend ? this.selection.anchor : focus, focus)
+  }
+
+  /**
+   * Replaces the text from [start] to [end] and selects [selection], by default the cursor after the new text
+   */
+  public replace(start: number, end: number, insert: string, kind: TEditKind = 'other', selection?: TSelection): void {
+    let before: TSnapshot = { text: this.text, selection: this.selection }
+    // Typing joins the last step, except that a new word after a space starts a step of its own
+    let join = this.grouping && kind !== 'other' && this.undoStack[this.undoStack.length - 1].kind === kind &&
+      !(kind === 'typing' && /\s/.test(this.text.charAt(start - 1)) && !/\s/.test(insert))
+    this.text = this.text.substring(0, start) + insert + this.text.substring(end)
+    let cursor = start + insert.length
+    this.selection = selection || { anchor: cursor, focus: cursor }
+    let after: TSnapshot = { text: this.text, selection: this.selection }
+    if (join) {
+      this.undoStack[this.undoStack.length - 1].after = after
+    } else {
+      this.undoStack.push({ before, after, kind })
+      if (this.undoStack.length > this.maxHistory) {
+        this.undoStack.shift()
+      }
+    }
+    this.redoStack = []
+    this.grouping = kind !== 'other'
+    this.notify()
+  }
+
+  // Types text over the selection
+  public insert(text: string): void {
+    this.replace(this.start, this.end, text, 'typing')
+  }
+
+  /**
+   * Deletes the selection, or else the character or word before the cursor, or after it for [direction] 1
+   */
+  public delete(direction: -1 | 1, byWord = false): void {
+    let start = this.start
+    let end = this.end
+    if (start === end) {
+      let offset = byWord ? wordBoundary(this.text, start, direction) : start + direction
+      start = Math.max(0, Math.min(start, offset))
+      end = Math.min(this.text.length, Math.max(end, offset))
+    }
+    if (start !== end) {
+      this.replace(start, end, '', 'deleting')
+    }
+  }
+
+  // Deletes the selection and returns its text
+  public cut(): string {
+    let text = this.selectedText()
+    if (text) {
+      this.replace(this.start, this.end, '')
+    }
+    return text
+  }
+
+  public paste(text: string): void {
+    this.replace(this.start, this.end, sanitize(text))
+  }
+
+  public undo(): boolean {
+    let entry = this.undoStack.pop()
+    if (entry === undefined) {
+      return false
+    }
+    this.redoStack.push(entry)
+    this.restore(entry.before)
+    return true
+  }
+
+  public redo(): boolean {
+    let entry = this.redoStack.pop()
+    if (entry === undefined) {
+      return false
+    }
+    this.undoStack.push(entry)
+    this.restore(entry.after)
+    return true
+  }
+
+  /**
+   * Calls the listener with the new text after every change, returns a function which removes it
+   */
+  public onChange(listener: (text: string) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener)
+    }
+  }
+
+  private restore(snapshot: TSnapshot): void {
+    this.text = snapshot.text
+    this.selection = snapshot.selection
+    this.grouping = false
+    this.notify()
+  }
+
+  private notify(): void {
+    for (let listener of this.listeners) {
+      listener(this.text)
+    }
+  }
+}
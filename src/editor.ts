@@ -1,14 +1,44 @@
-import {Lexer} from "./tapDigit"
-
+import {Lexer, LexerTokens, TRange, TToken, findEdit} from "./tapDigit"
+import {TCompletion, TCompletionContext, TCompletions, complete, parseTyped, signatureHelp} from "./completion"
+import {formatParameter} from "./functions"
+import {analyzeSemantics} from "./highlight"
+import {TBrackets, bracketAt, enclosingRange, matchBrackets} from "./structure"
+import {EditBuffer, TEditKind, sanitize} from "./editing"
+
+/**
+ * An expression editor with syntax highlighting, which tells apart the names of [context] and unknown
+ * names and underlines errors and warnings, completion of names and parameter hints inside function calls.
+ * The context defaults to the built-ins. The text lives in an EditBuffer with its own undo history; the
+ * hidden input only takes the focus, the clipboard and the text of input methods.
+ */
 // noinspection JSUnusedGlobalSymbols
-export function Editor(element: HTMLElement) {
+export function Editor(element: HTMLElement, context: TCompletionContext = {}) {
 
   let lexer = new Lexer()
+  // The tokens of the text last shown
+  let tokens: TToken[] = []
+  let text = ''
   let cursor: HTMLElement
   let blinkTimer: number | undefined
   let editor: HTMLDivElement & Node
   let input: HTMLInputElement
   let hasFocus: boolean
+  // The completion popup and the parameter hint, below the cursor
+  let popup: HTMLDivElement
+  let hint: HTMLDivElement
+  let completions: TCompletions | undefined
+  let selected = 0
+  // Whether Escape closed the popup, which stays closed until the text changes
+  let dismissed = false
+  let brackets: TBrackets = { pairs: [], unbalanced: [] }
+  // The selections expandSelection() widened, to go back to with shrinkSelection()
+  let expanded: TRange[] = []
+  let buffer = new EditBuffer()
+  // Listeners of onInput(), told about every change of the text, and of onChange(), told on blur
+  // when the text differs from the one at focus
+  let inputListeners: ((value: string) => void)[] = []
+  let changeListeners: ((value: string) => void)[] = []
+  let focusedText = ''
 
   function hideCursor(): void {
     if (blinkTimer) {
@@ -29,12 +59,11 @@ export function Editor(element: HTMLElement) {
     }, 423)
   }
 
-  // Get cursor position from the proxy input and adjust the editor
+  // Put the cursor at the focus of the selection and mark the selected characters
   function updateCursor(): void {
-    let start: number
-    let end: number
-    let x: number
-    let y: number
+    let start = buffer.start
+    let end = buffer.end
+    let focus = buffer.selection.focus
     let cls: string | null
 
     if (!cursor) {
@@ -45,91 +74,249 @@ export function Editor(element: HTMLElement) {
       return
     }
 
-    start = input.selectionStart || 0
-    end = input.selectionEnd || 0
-    if (start > end) {
-      end = input.selectionStart || 0
-      start = input.selectionEnd || 0
-    }
-
-    if (editor.childNodes.length <= start) {
+    if (editor.childNodes.length <= focus) {
       return
     }
 
-    let el = editor.childNodes[start] as HTMLElement
-    if (el) {
-      x = el.offsetLeft
-      y = el.offsetTop
-      cursor.style.left = x + 'px'
-      cursor.style.top = y + 'px'
-      cursor.style.opacity = '1'
+    // At the end of the text the cursor goes after the last character
+    let el = editor.childNodes[focus] as HTMLElement
+    let last = focus > 0 && focus === buffer.text.length ? editor.childNodes[focus - 1] as HTMLElement : undefined
+    if (last) {
+      cursor.style.left = (last.offsetLeft + last.offsetWidth) + 'px'
+      cursor.style.top = last.offsetTop + 'px'
+    } else if (el) {
+      cursor.style.left = el.offsetLeft + 'px'
+      cursor.style.top = el.offsetTop + 'px'
     }
 
     // If there is a selection, add the CSS class 'selected'
-    // to all nodes inside the selection range.
-    cursor.style.opacity = (start === end) ? '1' : '0'
+    // to all nodes inside the selection range, and without one
+    // 'bracket-match' to a bracket next to the cursor and its pair.
+    cursor.style.opacity = '1'
+    let pair = start === end ? bracketAt(brackets, start) : undefined
     for (let i = 0; i < editor.childNodes.length; i += 1) {
       el = editor.childNodes[i] as HTMLElement
       cls = el.getAttribute('class')
       if (cls !== null) {
-        cls = cls.replace(' selected', '')
+        cls = cls.replace(' selected', '').replace(' bracket-match', '')
         if (i >= start && i < end) {
           cls += ' selected'
         }
+        if (pair && (i === pair.open || i === pair.close)) {
+          cls += ' bracket-match'
+        }
         el.setAttribute('class', cls)
       }
     }
   }
 
-  // Get a new text from the proxy input and update the syntax highlight
+  // Update the syntax highlight from the text of the buffer, scanning again only the tokens around the edit
   function updateEditor(): void {
-    let tokens = []
-    let text = ''
     let html = ''
-    let expr = input.value
-    try {
-      lexer.reset(expr)
-      while (true) {
-        let token = lexer.next()
-        if (typeof token === 'undefined') {
-          break
-        }
-        tokens.push(token)
+    let expr = buffer.text
+    tokens = lexer.retokenize(tokens, expr, findEdit(text, expr))
+    text = expr
+
+    // The classes and tooltip of each character
+    let classes: string[] = []
+    let titles: string[] = []
+    for (let i = 0; i < tokens.length; i += 1) {
+      let token = tokens[i]
+      let cls = token.type === LexerTokens.whitespace ? 'blank' : token.type === LexerTokens.invalid ? 'error' : token.type
+      for (let j = token.start!; j <= token.end!; j += 1) {
+        classes[j] = cls
       }
-
-      for (let i = 0; i < tokens.length; i += 1) {
-        let token = tokens[i]
-        while (text.length < token.start!) {
-          text += ' '
-          html += '<span class="blank"> </span>'
-        }
-        let str = expr.substring(token.start!, token.end! + 1)
-        for (let j = 0; j < str.length; j += 1) {
-          html += `<span class="${token.type}">`
-          html += str.charAt(j)
-          text += str.charAt(j)
-          html += '</span>'
-        }
+    }
+    brackets = matchBrackets(tokens)
+    for (let offset of brackets.unbalanced) {
+      classes[offset] += ' bracket-unbalanced'
+    }
+    let semantics = analyzeSemantics(expr, context)
+    for (let highlight of semantics.highlights) {
+      for (let j = highlight.range.start; j < highlight.range.end; j += 1) {
+        classes[j] += ' ' + highlight.class
       }
-      while (text.length < expr.length) {
-        text += ' '
-        html += '<span class="blank"> </span>'
+    }
+    for (let diagnostic of semantics.diagnostics) {
+      // An empty range, eg. of a missing ')', underlines the character there or the last one
+      let start = Math.min(diagnostic.range.start, expr.length - 1)
+      let end = Math.max(diagnostic.range.end, start + 1)
+      for (let j = start; j >= 0 && j < end; j += 1) {
+        classes[j] += ' squiggle-' + diagnostic.severity
+        titles[j] = (titles[j] ? titles[j] + '\n' : '') + diagnostic.message
       }
-    } catch (e) {
-      // plain spans for the editor
-      html = ''
-      for (let i = 0; i < expr.length; i += 1) {
-        html += '<span class="error">' + expr.charAt(i) + '</span>'
+    }
+
+    for (let i = 0; i < expr.length; i += 1) {
+      html += `<span class="${classes[i]}"` + (titles[i] ? ` title="${escape(titles[i])}">` : '>')
+      html += escape(expr.charAt(i))
+      html += '</span>'
+    }
+
+    html += '<span class="cursor" id="cursor">\u00A0</span>'
+    if (html !== editor.innerHTML) {
+      editor.innerHTML = html
+      cursor = document.getElementById('cursor') as HTMLElement
+      blinkCursor()
+      updateCursor()
+    }
+  }
+
+  function escape(str: string): string {
+    return str.replace(/[<>&"]/g, ch => ch === '<' ? '&lt;' : ch === '>' ? '&gt;' : ch === '"' ? '&quot;' : '&amp;')
+  }
+
+  // Show the names completing the identifier at the cursor and the parameters of the call around it
+  function updateHints(): void {
+    let offset = buffer.selection.focus
+    let collapsed = buffer.start === buffer.end
+    let previous = completions
+    completions = collapsed && !dismissed ? complete(text, offset, context) : undefined
+    if (completions && !completions.items.length) {
+      completions = undefined
+    }
+    if (!previous || !completions || previous.range.start !== completions.range.start) {
+      selected = 0
+    }
+    selected = completions ? Math.min(selected, completions.items.length - 1) : 0
+    renderPopup()
+
+    let help = collapsed ? signatureHelp(text, offset, context) : undefined
+    if (help === undefined) {
+      hint.style.display = 'none'
+      return
+    }
+    let params = help.signature.params.map((param, i) =>
+      i === help!.activeParameter ? `<b class="active">${escape(formatParameter(param))}</b>` : escape(formatParameter(param)))
+    let description = help.signature.description
+    hint.innerHTML = escape(help.name) + '(' + params.join(', ') + ')' +
+      (description ? ` <span class="description">${escape(description)}</span>` : '')
+    hint.style.display = ''
+    placeBelowCursor(hint, completions ? popup.offsetHeight : 0)
+  }
+
+  function renderPopup(): void {
+    if (!completions) {
+      popup.style.display = 'none'
+      return
+    }
+    popup.innerHTML = completions.items.map((item, i) =>
+      `<div class="completion ${item.kind}${i === selected ? ' active' : ''}">` +
+      `<span class="name">${escape(item.name)}</span> <span class="detail">${escape(item.detail)}</span></div>`
+    ).join('')
+    popup.style.display = ''
+    placeBelowCursor(popup, 0)
+    let active = popup.childNodes[selected] as HTMLElement
+    if (active.offsetTop < popup.scrollTop || active.offsetTop + active.offsetHeight > popup.scrollTop + popup.clientHeight) {
+      popup.scrollTop = active.offsetTop
+    }
+  }
+
+  function placeBelowCursor(el: HTMLElement, skip: number): void {
+    if (cursor) {
+      el.style.left = cursor.offsetLeft + 'px'
+      el.style.top = (cursor.offsetTop + cursor.offsetHeight + skip) + 'px'
+    }
+  }
+
+  // Replace the name at the cursor with the completion, followed by '()' for a function
+  function accept(item: TCompletion): void {
+    let range = completions!.range
+    let call = item.kind === 'function' && text.charAt(range.end) !== '('
+    let offset = range.start + item.name.length + (call ? 1 : 0)
+    buffer.replace(range.start, range.end, item.name + (call ? '()' : ''), 'other', { anchor: offset, focus: offset })
+    dismissed = true
+    refresh()
+  }
+
+  // Replace the text from [start] to [end], and select from [anchor] to [focus] of the new text
+  function edit(start: number, end: number, insert: string, kind: TEditKind, anchor: number, focus = anchor): void {
+    buffer.replace(start, end, insert, kind, { anchor, focus })
+    refresh()
+  }
+
+  // Select from [anchor] to [focus] without changing the text
+  function select(anchor: number, focus = anchor): void {
+    buffer.select(anchor, focus)
+    syncInput()
+    updateHints()
+    updateCursor()
+  }
+
+  // Show the text and selection of the buffer after a change
+  function refresh(): void {
+    syncInput()
+    updateEditor()
+    updateHints()
+    updateCursor()
+  }
+
+  // Mirror the buffer in the hidden input, so input methods and the clipboard see the same text
+  function syncInput(): void {
+    let selection = buffer.selection
+    if (input.value !== buffer.text) {
+      input.value = buffer.text
+    }
+    input.setSelectionRange(buffer.start, buffer.end, selection.anchor > selection.focus ? 'backward' : 'forward')
+  }
+
+  // Typing an opening bracket adds the closing one, around the selection if there is one, or else
+  // when no name or number follows; typing the closing bracket then steps over it. Returns whether
+  // the key was handled.
+  function editBrackets(key: string): boolean {
+    let start = buffer.start
+    let end = buffer.end
+    let closer = key === '(' ? ')' : key === '[' ? ']' : undefined
+    if (closer !== undefined) {
+      if (start !== end) {
+        edit(start, end, key + text.substring(start, end) + closer, 'other', start + 1, end + 1)
+        return true
       }
-    } finally {
-      html += '<span class="cursor" id="cursor">\u00A0</span>'
-      if (html !== editor.innerHTML) {
-        editor.innerHTML = html
-        cursor = document.getElementById('cursor') as HTMLElement
-        blinkCursor()
-        updateCursor()
+      if (!/[\w.]/.test(text.charAt(start))) {
+        edit(start, end, key + closer, 'typing', start + 1)
+        return true
       }
+      return false
+    }
+    if ((key === ')' || key === ']') && start === end && text.charAt(start) === key &&
+        brackets.pairs.some(pair => pair.close === start)) {
+      select(start + 1)
+      return true
+    }
+    // Deleting an opening bracket right before its pair deletes both
+    if (key === 'Backspace' && start === end && brackets.pairs.some(pair => pair.open === start - 1 && pair.close === start)) {
+      edit(start - 1, start + 1, '', 'deleting', start - 1)
+      return true
+    }
+    return false
+  }
+
+  // Select the node of the tree around the selection, eg. an argument, then the call, then the
+  // expression around it
+  function expandSelection(): void {
+    let selection = { start: buffer.start, end: buffer.end }
+    let last = expanded[expanded.length - 1]
+    if (last === undefined || last.start !== selection.start || last.end !== selection.end) {
+      expanded = []
     }
+    let parsed = parseTyped(text, context)
+    let range = parsed && enclosingRange(parsed.program, selection)
+    if (range !== undefined) {
+      expanded.push(selection, range)
+      select(range.start, range.end)
+    }
+  }
+
+  // Go back to the selection before the last expandSelection()
+  function shrinkSelection(): void {
+    let last = expanded[expanded.length - 1]
+    if (last === undefined || last.start !== buffer.start || last.end !== buffer.end) {
+      expanded = []
+      return
+    }
+    expanded.pop()
+    let previous = expanded.pop()!
+    select(previous.start, previous.end)
   }
 
   function focus(): void {
@@ -145,16 +332,50 @@ export function Editor(element: HTMLElement) {
   }
 
   function deselect(): void {
-    let cls: string | null
-    let el = editor.firstChild as HTMLElement
-    input.selectionEnd = input.selectionStart
-    while (el) {
-      cls = el.getAttribute('class')
-      if (cls && cls.match('selected')) {
-        cls = cls.replace('selected', '')
-        el.setAttribute('class', cls)
-      }
-      el = el.nextSibling as HTMLElement
+    select(buffer.selection.focus)
+  }
+
+  function undo(): void {
+    if (buffer.undo()) {
+      refresh()
+    }
+  }
+
+  function redo(): void {
+    if (buffer.redo()) {
+      refresh()
+    }
+  }
+
+  function getValue(): string {
+    return buffer.text
+  }
+
+  // Replace the text and forget the undo history, without telling the listeners
+  function setValue(value: string): void {
+    buffer.reset(value)
+    focusedText = buffer.text
+    refresh()
+  }
+
+  /**
+   * Calls the listener with the new text after every change, returns a function which removes it
+   */
+  function onInput(listener: (value: string) => void): () => void {
+    inputListeners.push(listener)
+    return () => {
+      inputListeners = inputListeners.filter(other => other !== listener)
+    }
+  }
+
+  /**
+   * Calls the listener with the text when the editor loses the focus with a text other than at focus,
+   * returns a function which removes it
+   */
+  function onChange(listener: (value: string) => void): () => void {
+    changeListeners.push(listener)
+    return () => {
+      changeListeners = changeListeners.filter(other => other !== listener)
     }
   }
 
@@ -166,21 +387,156 @@ export function Editor(element: HTMLElement) {
     el.removeEventListener(eventName, handler, false)
   }
 
-  function onInputKeyDown(): void {
-    updateCursor()
+  function onInputKeyDown(event: KeyboardEvent): void {
+    if (completions) {
+      let count = completions.items.length
+      let handled = true
+      switch (event.key) {
+        case 'ArrowDown':
+          selected = (selected + 1) % count
+          break
+        case 'ArrowUp':
+          selected = (selected + count - 1) % count
+          break
+        case 'Enter':
+        case 'Tab':
+          accept(completions.items[selected])
+          break
+        case 'Escape':
+          dismissed = true
+          completions = undefined
+          break
+        default:
+          handled = false
+      }
+      if (handled) {
+        renderPopup()
+        event.preventDefault()
+        return
+      }
+    }
+    if (event.altKey && event.shiftKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      if (event.key === 'ArrowUp') {
+        expandSelection()
+      } else {
+        shrinkSelection()
+      }
+      event.preventDefault()
+      return
+    }
+    if (!event.ctrlKey && !event.metaKey && !event.altKey && editBrackets(event.key)) {
+      event.preventDefault()
+      return
+    }
+    if (editKey(event)) {
+      event.preventDefault()
+      blinkCursor()
+      refresh()
+    }
   }
 
-  function onInputKeyUp(): void {
-    updateEditor()
+  // Apply a key to the buffer: typing, deleting and moving by a character or with Ctrl or Alt by a word,
+  // Shift to extend the selection, Ctrl+A, Ctrl+Z and Ctrl+Shift+Z or Ctrl+Y, or Cmd on a Mac. Returns
+  // whether the key was handled; the others, eg. Tab and Ctrl+C, are left to the browser.
+  function editKey(event: KeyboardEvent): boolean {
+    let command = event.ctrlKey || event.metaKey
+    let byWord = event.ctrlKey || event.altKey
+    let key = event.key.length === 1 ? event.key.toLowerCase() : event.key
+    switch (key) {
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        buffer.move(key === 'ArrowLeft' ? -1 : 1, event.shiftKey, byWord)
+        return true
+      case 'Home':
+      case 'End':
+        buffer.moveToEdge(key === 'Home' ? -1 : 1, event.shiftKey)
+        return true
+      case 'Backspace':
+      case 'Delete':
+        buffer.delete(key === 'Backspace' ? -1 : 1, byWord)
+        return true
+    }
+    if (command && !event.altKey) {
+      if (key === 'a') {
+        buffer.selectAll()
+      } else if (key === 'z' && !event.shiftKey) {
+        buffer.undo()
+      } else if (key === 'z' || key === 'y') {
+        buffer.redo()
+      } else {
+        return false
+      }
+      return true
+    }
+    // AltGr gives Ctrl and Alt together, its characters come through the input event
+    if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      buffer.insert(event.key)
+      return true
+    }
+    return false
+  }
+
+  // Text which comes without a key we handle, eg. from an input method or a mobile keyboard
+  function onInputInput(): void {
+    if (input.value === buffer.text) {
+      return
+    }
+    let change = findEdit(buffer.text, input.value)
+    buffer.replace(change.start, change.end, sanitize(input.value.substr(change.start, change.inserted)), 'typing')
+    refresh()
+  }
+
+  function onInputCopy(event: ClipboardEvent): void {
+    if (event.clipboardData && buffer.start !== buffer.end) {
+      event.clipboardData.setData('text/plain', buffer.selectedText())
+      event.preventDefault()
+    }
+  }
+
+  function onInputCut(event: ClipboardEvent): void {
+    if (event.clipboardData && buffer.start !== buffer.end) {
+      event.clipboardData.setData('text/plain', buffer.cut())
+      event.preventDefault()
+      refresh()
+    }
+  }
+
+  function onInputPaste(event: ClipboardEvent): void {
+    if (event.clipboardData) {
+      buffer.paste(event.clipboardData.getData('text/plain'))
+      event.preventDefault()
+      refresh()
+    }
+  }
+
+  function onPopupMouseDown(event: MouseEvent): void {
+    for (let i = 0; i < popup.childNodes.length; i += 1) {
+      if (popup.childNodes[i].contains(event.target as Node)) {
+        accept(completions!.items[i])
+        break
+      }
+    }
+    event.preventDefault()
+    focus()
   }
 
   function onInputBlur(): void {
     hasFocus = false
     hideCursor()
+    completions = undefined
+    renderPopup()
+    hint.style.display = 'none'
+    if (buffer.text !== focusedText) {
+      focusedText = buffer.text
+      for (let listener of changeListeners) {
+        listener(buffer.text)
+      }
+    }
   }
 
   function onInputFocus(): void {
     hasFocus = true
+    focusedText = buffer.text
   }
 
   function onEditorMouseDown(event: MouseEvent): void {
@@ -188,7 +544,6 @@ export function Editor(element: HTMLElement) {
     let i
     let x = event.clientX
     let y = event.clientY
-    deselect()
 
     for (i = 0; i < editor.childNodes.length; i += 1) {
       let el = editor.childNodes[i] as HTMLElement
@@ -197,8 +552,6 @@ export function Editor(element: HTMLElement) {
       let y1 = el.offsetTop
       let y2 = y1 + el.offsetHeight
       if (x1 <= x && x < x2 && y1 <= y && y < y2) {
-        input.selectionStart = i
-        input.selectionEnd = i
         anchor = i
         blinkCursor()
         break
@@ -207,20 +560,17 @@ export function Editor(element: HTMLElement) {
 
     // no match, then assume it is at the end
     if (i >= editor.childNodes.length) {
-      input.selectionStart = input.value.length
-      input.selectionEnd = input.selectionStart
-      anchor = input.value.length
+      anchor = buffer.text.length
     }
+    select(anchor)
 
     function onDocumentMouseMove(event: MouseEvent) {
       if (event.target && (event.target as Element).parentNode === editor) {
         for (let i = 0; i < editor.childNodes.length; i += 1) {
           let el = editor.childNodes[i]
           if (el === event.target && el !== cursor) {
-            input.selectionStart = Math.min(i, anchor)
-            input.selectionEnd = Math.max(i, anchor)
+            select(anchor, i)
             blinkCursor()
-            updateCursor()
             break
           }
         }
@@ -258,7 +608,6 @@ export function Editor(element: HTMLElement) {
     input = document.createElement('input')
     input.style.position = 'absolute'
     input.style.width = '100px'
-    input.value = 'x = 40 + (6 / 3.0)'
     input.style.position = 'absolute'
 
     // Container for the above proxy, it also hides the proxy element
@@ -276,24 +625,48 @@ export function Editor(element: HTMLElement) {
     editor.style.wrap = 'on'
     editor.textContent = ' '
 
+    // Completions and parameter hints, shown as needed
+    popup = document.createElement('div')
+    popup.setAttribute('class', 'completions')
+    popup.style.position = 'absolute'
+    popup.style.display = 'none'
+    hint = document.createElement('div')
+    hint.setAttribute('class', 'signature-help')
+    hint.style.position = 'absolute'
+    hint.style.display = 'none'
+
     // Top-level wrapper for container
     wrapper = document.createElement('div')
+    wrapper.style.position = 'relative'
     wrapper.appendChild(container)
     wrapper.appendChild(editor)
+    wrapper.appendChild(popup)
+    wrapper.appendChild(hint)
     element.appendChild(wrapper)
 
     // Wire all event handlers
     setHandler(input, 'keydown', onInputKeyDown)
-    setHandler(input, 'keyup', onInputKeyUp)
+    setHandler(input, 'input', onInputInput)
+    setHandler(input, 'copy', onInputCopy)
+    setHandler(input, 'cut', onInputCut)
+    setHandler(input, 'paste', onInputPaste)
     setHandler(input, 'blur', onInputBlur)
     setHandler(input, 'focus', onInputFocus)
     setHandler(editor, 'mousedown', onEditorMouseDown)
+    setHandler(popup, 'mousedown', onPopupMouseDown)
   }
 
   hasFocus = false
   setupDOM(element)
-  updateEditor()
+  buffer.reset('x = 40 + (6 / 3.0)')
+  buffer.onChange(value => {
+    dismissed = false
+    for (let listener of inputListeners) {
+      listener(value)
+    }
+  })
+  refresh()
 
   // noinspection JSUnusedGlobalSymbols
-  return {focus, blur, deselect}
+  return {focus, blur, deselect, undo, redo, getValue, setValue, onInput, onChange}
 }
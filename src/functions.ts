@@ -0,0 +1,126 @@
+import {TBuiltInFunction} from "./tapDigit"
+
+// The kind of argument a parameter takes. Functions on numbers also apply to each element of a vector or matrix.
+export type TParameterType = 'number' | 'complex' | 'vector' | 'matrix' | 'value'
+
+export type TParameter = {
+  name: string
+  type: TParameterType
+  // May be left out, along with every parameter after it
+  optional?: boolean
+  // Takes any number of arguments, for the last parameter only
+  variadic?: boolean
+}
+
+/**
+ * What a built-in function takes and does, for checking calls and for signature help in an editor
+ */
+export type TSignature = {
+  params: TParameter[]
+  // Whether the same arguments always give the same result, so that a call may be folded or evaluated once
+  pure: boolean
+  description: string
+  // Calls as written in an expression, eg. 'round(2.567, 2)'
+  examples: string[]
+}
+
+// The fewest and most arguments a function takes, max is Infinity for a variadic function
+export type TArity = { min: number, max: number }
+
+// The signatures of built-in functions by callback, so that maps of functions stay plain callbacks
+const registry = new WeakMap<Function, TSignature>()
+
+/**
+ * Registers the signature of a built-in function, and returns the function
+ */
+export function declare<F extends Function>(fn: F, signature: TSignature): F {
+  registry.set(fn, signature)
+  return fn
+}
+
+/**
+ * Returns the declared signature of a function, or one made up from its number of parameters
+ * for a function which was never declared
+ */
+export function signatureOf(fn: Function): TSignature {
+  let signature = registry.get(fn)
+  if (signature !== undefined) {
+    return signature
+  }
+  let params = [] as TParameter[]
+  for (let i = 0; i < fn.length; i += 1) {
+    params.push({ name: fn.length === 1 ? 'x' : 'x' + (i + 1), type: 'value' })
+  }
+  return { params, pure: true, description: '', examples: [] }
+}
+
+export function arityOf(signature: TSignature): TArity {
+  let params = signature.params
+  let last = params[params.length - 1]
+  return {
+    min: params.filter(param => !param.optional).length,
+    max: last !== undefined && last.variadic ? Infinity : params.length
+  }
+}
+
+/**
+ * Writes the signature as a call, eg. round(x, digits?) or max(...values)
+ */
+export function formatSignature(name: string, signature: TSignature): string {
+  return name + '(' + signature.params.map(formatParameter).join(', ') + ')'
+}
+
+// eg. digits? for an optional parameter and ...values for a variadic one
+export function formatParameter(param: TParameter): string {
+  return (param.variadic ? '...' : '') + param.name + (param.optional ? '?' : '')
+}
+
+const X: TParameter = { name: 'x', type: 'number' }
+
+// A pure function of one number
+function unary(fn: (x: number) => number, description: string, example: string): (x: number) => number {
+  return declare(fn, { params: [X], pure: true, description, examples: [example] })
+}
+
+/**
+ * The built-in functions on real numbers
+ */
+export const mathFunctions: { [name: string]: TBuiltInFunction } = {
+  abs: unary(Math.abs, 'The absolute value of x', 'abs(-3)'),
+  acos: unary(Math.acos, 'The arccosine of x, in radians', 'acos(0.5)'),
+  asin: unary(Math.asin, 'The arcsine of x, in radians', 'asin(1)'),
+  atan: unary(Math.atan, 'The arctangent of x, in radians', 'atan(1)'),
+  ceil: unary(Math.ceil, 'The smallest integer greater than or equal to x', 'ceil(2.1)'),
+  cos: unary(Math.cos, 'The cosine of x radians', 'cos(pi)'),
+  exp: unary(Math.exp, 'e to the power of x', 'exp(1)'),
+  ln: unary(Math.log, 'The natural logarithm of x', 'ln(exp(2))'),
+  sin: unary(Math.sin, 'The sine of x radians', 'sin(pi / 2)'),
+  sqrt: unary(Math.sqrt, 'The square root of x', 'sqrt(16)'),
+  tan: unary(Math.tan, 'The tangent of x radians', 'tan(pi / 4)'),
+  floor: unary(Math.floor, 'The largest integer less than or equal to x', 'floor(2.9)'),
+  random: declare(Math.random, {
+    params: [],
+    pure: false,
+    description: 'A random number from 0 up to but not including 1, different on every call',
+    examples: ['random()']
+  }),
+  round: declare((x: number, digits = 0) => {
+    if (!Number.isInteger(digits)) {
+      return NaN
+    }
+    let scale = Math.pow(10, Math.abs(digits))
+    return digits >= 0 ? Math.round(x * scale) / scale : Math.round(x / scale) * scale
+  }, {
+    params: [X, { name: 'digits', type: 'number', optional: true }],
+    pure: true,
+    description: 'x rounded to a number of decimal places, to the nearest integer by default, or to tens, hundreds, ... for negative digits',
+    examples: ['round(2.567)', 'round(2.567, 2)', 'round(1234, -2)']
+  }),
+  // Through Math.log10() and Math.log2(), which are exact for powers of their base
+  log: declare((x: number, base = 10) => base === 10 ? Math.log10(x) : base === 2 ? Math.log2(x) : Math.log(x) / Math.log(base), {
+    params: [X, { name: 'base', type: 'number', optional: true }],
+    pure: true,
+    description: 'The logarithm of x to a base, 10 by default',
+    examples: ['log(1000)', 'log(8, 2)']
+  }),
+}
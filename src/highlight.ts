@@ -0,0 +1,88 @@
+import {TDiagnostic, TRange, builtIns, walk} from "./tapDigit"
+import {TCompletionContext, parseTyped} from "./completion"
+import {analyze} from "./analysis"
+
+// What a name refers to, used as the CSS class of its characters in the Editor
+export type TSemanticClass =
+  'function-known' | 'function-unknown' | 'identifier-unknown' | 'constant' | 'assigned' | 'parameter'
+
+export type THighlight = { range: TRange, class: TSemanticClass }
+
+export type TSemantics = {
+  // Of every name, in source order
+  highlights: THighlight[]
+  // The errors and warnings of the Parser, in source order
+  diagnostics: TDiagnostic[]
+}
+
+/**
+ * Parses an expression being typed and tells what each name in it refers to: a known or unknown function,
+ * a constant of the context, a variable of the context or one the expression assigns, a parameter of a
+ * function definition or an unknown identifier. Variables the expression assigns count as known, so only
+ * reads of names which are nowhere given a value are warned about.
+ */
+export function analyzeSemantics(expr: string, context: TCompletionContext = {}): TSemantics {
+  let functions = context.functions || builtIns.functions
+  let identifiers = context.identifiers || builtIns.identifiers
+  let variables = context.variables || {}
+  // Names the Parser takes as known
+  let known: { [name: string]: boolean } = {}
+  for (let name of Object.keys(identifiers).concat(Object.keys(variables))) {
+    known[name] = true
+  }
+
+  let parsed = parseTyped(expr, { functions, identifiers: known })
+  if (parsed === undefined) {
+    return { highlights: [], diagnostics: [] }
+  }
+  // Parsed again when the expression assigns, with the variables known
+  let assigns = analyze(parsed.program, { functions, identifiers }).assigns
+  for (let reference of assigns) {
+    known[reference.name] = true
+  }
+  if (assigns.length) {
+    parsed = parseTyped(expr, { functions, identifiers: known })!
+  }
+
+  let defined: { [name: string]: boolean } = {}
+  for (let statement of parsed.program.body) {
+    if (statement.type === 'FunctionDefinition') {
+      defined[statement.name.name] = true
+    }
+  }
+
+  let highlights: THighlight[] = []
+  let params: string[] = []
+  walk(parsed.program, {
+    enter: (node, parent) => {
+      if (node.type === 'FunctionDefinition') {
+        params = node.params.map(param => param.name)
+      }
+      if (node.type !== 'Identifier') {
+        return
+      }
+      let name = node.name
+      let cls: TSemanticClass
+      if (parent !== undefined && parent.type === 'CallExpression' && parent.callee === node) {
+        cls = functions.hasOwnProperty(name) || defined.hasOwnProperty(name) ? 'function-known' : 'function-unknown'
+      } else if (parent !== undefined && parent.type === 'FunctionDefinition') {
+        cls = parent.name === node ? 'function-known' : 'parameter'
+      } else if (params.indexOf(name) >= 0) {
+        cls = 'parameter'
+      } else if (parent !== undefined && parent.type === 'AssignmentExpression' && parent.name === node) {
+        cls = 'assigned'
+      } else if (identifiers.hasOwnProperty(name)) {
+        cls = 'constant'
+      } else {
+        cls = known.hasOwnProperty(name) ? 'assigned' : 'identifier-unknown'
+      }
+      highlights.push({ range: node.range, class: cls })
+    },
+    leave: node => {
+      if (node.type === 'FunctionDefinition') {
+        params = []
+      }
+    }
+  })
+  return { highlights, diagnostics: parsed.diagnostics }
+}
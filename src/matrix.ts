@@ -0,0 +1,217 @@
+import {TValue} from "./tapDigit"
+import {TParameter, TSignature, declare} from "./functions"
+
+/**
+ * A vector, eg. [1, 2, 3], or a matrix as a vector of rows of the same length, eg. [[1, 2], [3, 4]]
+ */
+export class Matrix {
+  constructor(readonly elements: TValue[]) {
+  }
+
+  get length(): number {
+    return this.elements.length
+  }
+
+  /**
+   * The length along each dimension, eg. [2, 3] for 2 rows of 3, or undefined when the rows differ in shape
+   */
+  public shape(): number[] | undefined {
+    let inner: number[] | undefined
+    for (let i = 0; i < this.elements.length; i += 1) {
+      let element = this.elements[i]
+      let shape = element instanceof Matrix ? element.shape() : []
+      if (shape === undefined || (i > 0 && formatShape(shape) !== formatShape(inner!))) {
+        return undefined
+      }
+      inner = shape
+    }
+    return [this.elements.length].concat(inner || [])
+  }
+
+  public toString(): string {
+    return '[' + this.elements.map(String).join(', ') + ']'
+  }
+}
+
+// Functions which take vectors and matrices, any other function applies to each of their elements
+export const matrixAware = new WeakSet<Function>()
+
+// eg. 3 for a vector and 2x3 for 2 rows of 3
+export function formatShape(shape: number[]): string {
+  return shape.length ? shape.join('x') : 'scalar'
+}
+
+/**
+ * The rows of a matrix of numbers, or undefined for anything else
+ */
+export function toRows(value: TValue): number[][] | undefined {
+  if (!(value instanceof Matrix)) {
+    return undefined
+  }
+  let shape = value.shape()
+  if (shape === undefined || shape.length !== 2) {
+    return undefined
+  }
+  let rows = value.elements.map(row => (row as Matrix).elements)
+  return rows.every(row => row.every(element => typeof element === 'number')) ? rows as number[][] : undefined
+}
+
+export function fromRows(rows: number[][]): Matrix {
+  return new Matrix(rows.map(row => new Matrix(row)))
+}
+
+// The numbers of a vector, or undefined for anything else
+function toVector(value: TValue): number[] | undefined {
+  if (!(value instanceof Matrix) || !value.elements.every(element => typeof element === 'number')) {
+    return undefined
+  }
+  return value.elements as number[]
+}
+
+// Every number of a matrix, row after row, and a number on its own
+function flatten(value: TValue): TValue[] {
+  return value instanceof Matrix ? value.elements.reduce((all: TValue[], element) => all.concat(flatten(element)), []) : [value]
+}
+
+// Gaussian elimination with partial pivoting, on a copy of the rows
+function determinant(rows: number[][]): number {
+  let a = rows.map(row => row.slice())
+  let n = a.length
+  let result = 1
+  for (let column = 0; column < n; column += 1) {
+    let pivot = column
+    for (let row = column + 1; row < n; row += 1) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) {
+        pivot = row
+      }
+    }
+    if (a[pivot][column] === 0) {
+      return 0
+    }
+    if (pivot !== column) {
+      [a[pivot], a[column]] = [a[column], a[pivot]]
+      result = -result
+    }
+    result *= a[column][column]
+    for (let row = column + 1; row < n; row += 1) {
+      let factor = a[row][column] / a[column][column]
+      for (let k = column; k < n; k += 1) {
+        a[row][k] -= factor * a[column][k]
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Gauss-Jordan elimination with partial pivoting, undefined for a singular matrix
+ */
+export function inverse(rows: number[][]): number[][] | undefined {
+  let n = rows.length
+  // The rows with the identity matrix on their right, which ends up as the inverse
+  let a = rows.map((row, i) => row.concat(row.map((_, j) => i === j ? 1 : 0)))
+  for (let column = 0; column < n; column += 1) {
+    let pivot = column
+    for (let row = column + 1; row < n; row += 1) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) {
+        pivot = row
+      }
+    }
+    if (a[pivot][column] === 0) {
+      return undefined
+    }
+    [a[pivot], a[column]] = [a[column], a[pivot]]
+    let scale = a[column][column]
+    a[column] = a[column].map(value => value / scale)
+    for (let row = 0; row < n; row += 1) {
+      let factor = a[row][column]
+      if (row !== column && factor !== 0) {
+        a[row] = a[row].map((value, k) => value - factor * a[column][k])
+      }
+    }
+  }
+  return a.map(row => row.slice(n))
+}
+
+function matrixFunction<F extends Function>(fn: F, signature: TSignature): F {
+  matrixAware.add(fn)
+  return declare(fn, signature)
+}
+
+// The numbers of all the arguments, each flattened, or undefined if any is not a number
+function numbers(args: TValue[]): number[] | undefined {
+  let values = args.reduce((all: TValue[], arg) => all.concat(flatten(arg)), [])
+  return values.every(value => typeof value === 'number') ? values as number[] : undefined
+}
+
+const A: TParameter = { name: 'a', type: 'vector' }
+const B: TParameter = { name: 'b', type: 'vector' }
+const M: TParameter = { name: 'm', type: 'matrix' }
+const VALUES: TParameter = { name: 'values', type: 'value', variadic: true }
+
+/**
+ * The built-in functions on vectors and matrices of numbers, giving NaN for arguments of the wrong shape.
+ * sum(), mean(), min(), max() and hypot() take any number of numbers, vectors and matrices, and go through
+ * all of their elements, eg. max([1, 5], 3) is 5. A number on its own counts as a vector of one for len().
+ */
+export const matrixFunctions: { [name: string]: (...args: TValue[]) => TValue } = {
+  dot: matrixFunction((a: TValue, b: TValue) => {
+    let u = toVector(a)
+    let v = toVector(b)
+    if (u === undefined || v === undefined || u.length !== v.length) {
+      return NaN
+    }
+    return u.reduce((sum, value, i) => sum + value * v![i], 0)
+  }, { params: [A, B], pure: true, description: 'The dot product of two vectors of the same length', examples: ['dot([1, 2], [3, 4])'] }),
+  cross: matrixFunction((a: TValue, b: TValue) => {
+    let u = toVector(a)
+    let v = toVector(b)
+    if (u === undefined || v === undefined || u.length !== 3 || v.length !== 3) {
+      return NaN
+    }
+    return new Matrix([u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]])
+  }, { params: [A, B], pure: true, description: 'The cross product of two vectors of length 3', examples: ['cross([1, 0, 0], [0, 1, 0])'] }),
+  // A vector turns into a column
+  transpose: matrixFunction((a: TValue) => {
+    let vector = toVector(a)
+    if (vector !== undefined) {
+      return fromRows(vector.map(value => [value]))
+    }
+    let rows = toRows(a)
+    if (rows === undefined) {
+      return NaN
+    }
+    return fromRows(rows.length ? rows[0].map((_, j) => rows!.map(row => row[j])) : [])
+  }, { params: [M], pure: true, description: 'The rows of m as columns, a vector becomes a column', examples: ['transpose([[1, 2], [3, 4]])'] }),
+  det: matrixFunction((a: TValue) => {
+    let rows = toRows(a)
+    return rows !== undefined && rows.every(row => row.length === rows!.length) ? determinant(rows) : NaN
+  }, { params: [M], pure: true, description: 'The determinant of a square matrix', examples: ['det([[1, 2], [3, 4]])'] }),
+  inv: matrixFunction((a: TValue) => {
+    let rows = toRows(a)
+    let result = rows !== undefined && rows.every(row => row.length === rows!.length) ? inverse(rows) : undefined
+    return result !== undefined ? fromRows(result) : NaN
+  }, { params: [M], pure: true, description: 'The inverse of a square matrix, NaN if it is singular', examples: ['inv([[2, 0], [0, 4]])'] }),
+  sum: matrixFunction((...args: TValue[]) => {
+    let values = numbers(args)
+    return values !== undefined ? values.reduce((sum, value) => sum + value, 0) : NaN
+  }, { params: [VALUES], pure: true, description: 'The sum of all the values', examples: ['sum(1, 2, 3)', 'sum([1, 2, 3])'] }),
+  mean: matrixFunction((...args: TValue[]) => {
+    let values = numbers(args)
+    return values !== undefined && values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : NaN
+  }, { params: [VALUES], pure: true, description: 'The arithmetic mean of all the values', examples: ['mean(1, 2, 6)', 'mean([1, 2, 6])'] }),
+  min: matrixFunction((...args: TValue[]) => {
+    let values = numbers(args)
+    return values !== undefined && values.length ? values.reduce((a, b) => Math.min(a, b)) : NaN
+  }, { params: [VALUES], pure: true, description: 'The smallest of all the values', examples: ['min(4, 2, 8)', 'min([4, 2, 8])'] }),
+  max: matrixFunction((...args: TValue[]) => {
+    let values = numbers(args)
+    return values !== undefined && values.length ? values.reduce((a, b) => Math.max(a, b)) : NaN
+  }, { params: [VALUES], pure: true, description: 'The largest of all the values', examples: ['max(4, 2, 8)', 'max([4, 2, 8])'] }),
+  hypot: matrixFunction((...args: TValue[]) => {
+    let values = numbers(args)
+    return values !== undefined ? Math.hypot(...values) : NaN
+  }, { params: [VALUES], pure: true, description: 'The square root of the sum of the squares of all the values', examples: ['hypot(3, 4)'] }),
+  len: matrixFunction((a: TValue) => a instanceof Matrix ? a.length : 1,
+    { params: [{ name: 'v', type: 'vector' }], pure: true, description: 'The number of elements of a vector, or rows of a matrix', examples: ['len([1, 2, 3])'] }),
+}
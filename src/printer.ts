@@ -0,0 +1,137 @@
+import {TExpression, TNode} from "./tapDigit"
+import {formatUnit} from "./units"
+
+export type TPrintOptions = {
+  spaceAroundOperators?: boolean  // eg. "a + b" rather than "a+b", defaults to true
+  spaceAfterSeparators?: boolean  // eg. "f(a, b); c" rather than "f(a,b);c", defaults to true
+}
+
+// Binding strength of binary operators, matching the grammar levels of the Parser
+const binaryPrecedence: { [operator: string]: number } = {
+  '||': 4,
+  '&&': 5,
+  '==': 6, '!=': 6,
+  '<': 7, '<=': 7, '>': 7, '>=': 7,
+  '+': 8, '-': 8,
+  '*': 9, '/': 9, '%': 9,
+  '^': 10,
+}
+
+const CONVERSION = 3
+const UNARY = 11
+const PRIMARY = 12
+
+function precedence(node: TExpression): number {
+  switch (node.type) {
+    case 'FunctionDefinition':
+    case 'AssignmentExpression':
+      return 1
+    case 'ConditionalExpression':
+      return 2
+    case 'ConversionExpression':
+      return CONVERSION
+    case 'BinaryExpression':
+    case 'LogicalExpression':
+      return binaryPrecedence[node.operator]
+    case 'UnaryExpression':
+      return UNARY
+    case 'NumberLiteral':
+      // A negative number (eg. from a rewritten tree) reads back as a unary minus
+      return node.value < 0 ? UNARY : PRIMARY
+    case 'QuantityLiteral':
+      // Raising it needs parentheses, as 2 m^2 raises the unit alone
+      return binaryPrecedence['^']
+    default:
+      return PRIMARY
+  }
+}
+
+// Whether the node, printed as an operand binding at least as strong as [minimum], ends with a quantity,
+// eg. a * 2 m, whose unit would take in a name after * or /
+function endsWithQuantity(node: TExpression, minimum: number): boolean {
+  if (precedence(node) < minimum) {
+    return false
+  }
+  switch (node.type) {
+    case 'QuantityLiteral':
+      return true
+    case 'UnaryExpression':
+      return endsWithQuantity(node.argument, UNARY)
+    case 'BinaryExpression':
+    case 'LogicalExpression': {
+      let level = binaryPrecedence[node.operator]
+      return endsWithQuantity(node.right, node.operator === '^' ? level : level + 1)
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Turns a syntax tree back into source text, with only the parentheses the
+ * precedence of the operators requires. Parsing the result again gives the
+ * same tree, apart from the source ranges.
+ */
+export function print(ast: TNode, options: TPrintOptions = {}): string {
+  let operatorSpace = options.spaceAroundOperators === false ? '' : ' '
+  let separatorSpace = options.spaceAfterSeparators === false ? '' : ' '
+
+  // Prints the node, wrapped in parentheses if it binds weaker than [minimum]
+  function operand(node: TExpression, minimum: number): string {
+    let str = printNode(node)
+    return precedence(node) < minimum ? `(${str})` : str
+  }
+
+  function printNode(node: TExpression): string {
+    switch (node.type) {
+      case 'Error':
+        // There is no source for what could not be parsed
+        return ''
+      case 'NumberLiteral':
+        return node.raw
+      case 'QuantityLiteral':
+        return node.raw + ' ' + formatUnit(node.unit)
+      case 'ImaginaryLiteral':
+        return node.raw + 'i'
+      case 'Identifier':
+        return node.name
+      case 'UnaryExpression':
+        return node.operator + operand(node.argument, UNARY)
+      case 'BinaryExpression':
+      case 'LogicalExpression': {
+        let level = binaryPrecedence[node.operator]
+        // '^' is right-associative, all the other operators are left-associative
+        let rightAssociative = node.operator === '^'
+        let left = operand(node.left, rightAssociative ? level + 1 : level)
+        let right = operand(node.right, rightAssociative ? level : level + 1)
+        // (2 m) * s would read back as 2 m*s
+        if ((node.operator === '*' || node.operator === '/') && /^[A-Za-z_]/.test(right) && endsWithQuantity(node.left, level)) {
+          left = `(${left})`
+        }
+        return left + operatorSpace + node.operator + operatorSpace + right
+      }
+      case 'ConversionExpression':
+        return operand(node.value, CONVERSION) + ' ' + node.operator + ' ' + formatUnit(node.unit)
+      case 'ConditionalExpression':
+        return operand(node.test, CONVERSION) +
+          operatorSpace + '?' + operatorSpace + printNode(node.consequent) +
+          operatorSpace + ':' + operatorSpace + printNode(node.alternate)
+      case 'AssignmentExpression':
+        return node.name.name + operatorSpace + '=' + operatorSpace + printNode(node.value)
+      case 'CallExpression':
+        return node.callee.name + '(' + node.arguments.map(printNode).join(',' + separatorSpace) + ')'
+      case 'ArrayExpression':
+        return '[' + node.elements.map(printNode).join(',' + separatorSpace) + ']'
+      case 'IndexExpression':
+        return operand(node.object, PRIMARY) + '[' + printNode(node.index) + ']'
+      case 'FunctionDefinition':
+        return node.name.name + '(' + node.params.map(printNode).join(',' + separatorSpace) + ')' +
+          operatorSpace + '=' + operatorSpace + printNode(node.body)
+    }
+  }
+
+  if (ast.type === 'Program') {
+    return ast.body.map(printNode).join(';' + separatorSpace)
+  }
+  return printNode(ast)
+}
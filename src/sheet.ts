@@ -0,0 +1,247 @@
+import {
+  DiagnosticError, ErrorCode, Evaluator, NumericBackend, TBuiltInFunction, TDiagnostic, TProgram, TRange, TValue,
+  builtIns, createDiagnostic, floatBackend
+} from "./tapDigit"
+import {analyze} from "./analysis"
+import {TUnitDefinition} from "./units"
+
+export class CycleError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic, readonly path: string[]) {
+    super(diagnostic)
+  }
+}
+
+export type TCell = {
+  readonly name: string
+  readonly formula?: string        // Unset for inputs
+  readonly value: TValue           // NaN while the cell has an error
+  readonly error?: DiagnosticError // From parsing or evaluating the formula, or from a cell it depends on
+  readonly dependencies: string[]  // Names the formula reads, cells or not
+}
+
+export type TCellChange = {
+  name: string
+  value: TValue
+  previous: TValue
+  error?: DiagnosticError
+}
+
+type TSheetCell = {
+  name: string
+  formula?: string
+  value: TValue
+  error?: DiagnosticError
+  dependencies: string[]
+  // Where the formula reads each dependency, to point cycle errors at
+  references: { [name: string]: TRange }
+  evaluate?: (variables: { [name: string]: TValue }) => TValue | null
+}
+
+/**
+ * Named inputs and formulas which read each other by name, eg. tax = subtotal * rate.
+ * Changing a cell recomputes only the cells that depend on it, in dependency order,
+ * and reports every cell whose value or error changed to the change listeners.
+ */
+export class Sheet {
+
+  private evaluator: Evaluator
+  private cells: { [name: string]: TSheetCell } = {}
+  private listeners: ((change: TCellChange) => void)[] = []
+
+  constructor(
+    readonly functions: { [name: string]: TBuiltInFunction } = builtIns.functions,
+    readonly identifiers: { [name: string]: TValue } = builtIns.identifiers,
+    readonly units: { [name: string]: TUnitDefinition } = builtIns.units,
+    readonly backend: NumericBackend<TValue> = floatBackend)
+  {
+    this.evaluator = new Evaluator(functions, identifiers, units, backend)
+  }
+
+  /**
+   * Sets a cell to a fixed value
+   */
+  public setInput(name: string, value: TValue): void {
+    let previous = this.valueOf(name)
+    this.cells[name] = { name, value, dependencies: [], references: {} }
+    this.recalculate(name, previous)
+  }
+
+  /**
+   * Sets a cell to the value of a formula. A formula which does not parse leaves the cell with its error.
+   */
+  public setFormula(name: string, formula: string): void {
+    let cell: TSheetCell = { name, formula, value: NaN, dependencies: [], references: {} }
+    try {
+      let program: TProgram = this.evaluator.parser.parse(formula)
+      for (let read of analyze(program, { functions: this.functions, identifiers: this.identifiers }).reads) {
+        cell.dependencies.push(read.name)
+        cell.references[read.name] = read.ranges[0]
+      }
+      cell.evaluate = this.evaluator.compile(program)
+    } catch (e) {
+      if (!(e instanceof DiagnosticError)) {
+        throw e
+      }
+      cell.error = e
+    }
+    let previous = this.valueOf(name)
+    this.cells[name] = cell
+    this.recalculate(name, previous)
+  }
+
+  public remove(name: string): void {
+    if (this.cells.hasOwnProperty(name)) {
+      let previous = this.valueOf(name)
+      delete this.cells[name]
+      this.recalculate(name, previous)
+    }
+  }
+
+  public get(name: string): TCell | undefined {
+    return this.cells.hasOwnProperty(name) ? this.cells[name] : undefined
+  }
+
+  public names(): string[] {
+    return Object.keys(this.cells)
+  }
+
+  /**
+   * Calls the listener for every cell whose value or error changes, returns a function removing it again
+   */
+  public onChange(listener: (change: TCellChange) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener)
+    }
+  }
+
+  private valueOf(name: string): TValue {
+    return this.cells.hasOwnProperty(name) ? this.cells[name].value : NaN
+  }
+
+  // Recomputes the cells depending on [changed], directly or not, once it is set or removed
+  private recalculate(changed: string, previousValue: TValue): void {
+    let affected = this.dependents(changed)
+    let { order, cycles } = this.sort(affected)
+    let changes: TCellChange[] = []
+
+    if (!this.cells.hasOwnProperty(changed)) {
+      changes.push({ name: changed, value: NaN, previous: previousValue })
+    }
+    for (let name of order) {
+      let cell = this.cells[name]
+      let previous = name === changed ? undefined : { value: cell.value, error: cell.error }
+      if (cycles.hasOwnProperty(name)) {
+        cell.value = NaN
+        cell.error = cycles[name]
+      } else if (cell.evaluate) {
+        this.evaluate(cell)
+      }
+      if (!previous) {
+        changes.push({ name, value: cell.value, previous: previousValue, error: cell.error })
+      } else if (!same(previous.value, cell.value) || !sameError(previous.error, cell.error)) {
+        changes.push({ name, value: cell.value, previous: previous.value, error: cell.error })
+      }
+    }
+
+    for (let change of changes) {
+      for (let listener of this.listeners) {
+        listener(change)
+      }
+    }
+  }
+
+  private evaluate(cell: TSheetCell): void {
+    let variables: { [name: string]: TValue } = {}
+    cell.error = undefined
+    for (let dependency of cell.dependencies) {
+      if (this.cells.hasOwnProperty(dependency)) {
+        let source = this.cells[dependency]
+        if (source.error) {
+          // Errors spread to the cells depending on the cell at fault
+          cell.value = NaN
+          cell.error = source.error
+          return
+        }
+        variables[dependency] = source.value
+      }
+    }
+    try {
+      let value = cell.evaluate!(variables)
+      // A blank formula has no value, and reads as NaN like a cell in error
+      cell.value = value === null ? NaN : value
+    } catch (e) {
+      if (!(e instanceof DiagnosticError)) {
+        throw e
+      }
+      cell.value = NaN
+      cell.error = e
+    }
+  }
+
+  // The cells which read [name], directly or through other cells, and [name] itself if it is a cell
+  private dependents(name: string): { [name: string]: boolean } {
+    let found: { [name: string]: boolean } = {}
+    let pending = [name]
+    while (pending.length) {
+      let next = pending.pop()!
+      for (let other of Object.keys(this.cells)) {
+        if (!found.hasOwnProperty(other) && this.cells[other].dependencies.indexOf(next) >= 0) {
+          found[other] = true
+          pending.push(other)
+        }
+      }
+    }
+    if (this.cells.hasOwnProperty(name)) {
+      found[name] = true
+    }
+    return found
+  }
+
+  // Orders the cells so that every cell comes after the cells it reads, and finds the cycles among them
+  private sort(cells: { [name: string]: boolean }): { order: string[], cycles: { [name: string]: CycleError } } {
+    let order: string[] = []
+    let cycles: { [name: string]: CycleError } = {}
+    let visited: { [name: string]: boolean } = {}
+    let path: string[] = []
+
+    let visit = (name: string) => {
+      let start = path.indexOf(name)
+      if (start >= 0) {
+        let cycle = path.slice(start)
+        cycle.forEach((member, i) => {
+          // Each cell of the cycle reports it starting from itself, eg. a -> b -> a and b -> a -> b
+          let rotated = cycle.slice(i).concat(cycle.slice(0, i), member)
+          let next = rotated[1]
+          let diagnostic = createDiagnostic(ErrorCode.CircularReference, 'error',
+            this.cells[member].references[next], { path: rotated.join(' -> ') })
+          cycles[member] = new CycleError(diagnostic, rotated)
+        })
+        return
+      }
+      if (visited.hasOwnProperty(name) || !cells.hasOwnProperty(name)) {
+        return
+      }
+      path.push(name)
+      for (let dependency of this.cells[name].dependencies) {
+        visit(dependency)
+      }
+      path.pop()
+      visited[name] = true
+      order.push(name)
+    }
+
+    Object.keys(cells).forEach(visit)
+    return { order, cycles }
+  }
+}
+
+// Equal values, where NaN is the same as NaN and quantities compare by value and unit
+function same(a: TValue, b: TValue): boolean {
+  return a === b || String(a) === String(b)
+}
+
+// Errors are raised anew on every evaluation, so they compare by what they say
+function sameError(a: DiagnosticError | undefined, b: DiagnosticError | undefined): boolean {
+  return a === b || (a !== undefined && b !== undefined && a.code === b.code && a.message === b.message)
+}
@@ -0,0 +1,348 @@
+import {
+  NumericBackend, TBuiltInFunction, TExpression, TNumberLiteral, TProgram, TRange, TValue, binaryOperators, builtIns,
+  floatBackend, unaryOperators, walk
+} from "./tapDigit"
+import {print} from "./printer"
+import {signatureOf} from "./functions"
+import {Decimal} from "./decimal"
+
+export type TSimplifyOptions = {
+  // Functions which may be folded when all their arguments are numbers, defaults to builtIns.functions
+  functions?: { [name: string]: TBuiltInFunction }
+  // Functions which give a different result on every call and must never be folded, defaults to
+  // those whose signature is not pure, eg. random()
+  impure?: string[]
+  // The arithmetic of the Evaluator the result is for, so that eg. 0.1 + 0.2 folds to 0.3 for
+  // the DecimalBackend, defaults to floats
+  backend?: NumericBackend<TValue>
+}
+
+type TTerm = { coefficient: TNumberLiteral, term: TExpression | undefined }
+type TFactor = { base: TExpression, exponent: TNumberLiteral }
+
+/**
+ * Returns a reduced tree which evaluates to the same value: constant sub-trees are folded,
+ * identities such as x * 1, x + 0, x - x and --x are applied, like terms are collected and
+ * numeric coefficients combined, with the arithmetic of the backend. Calls of impure functions and
+ * assignments are kept as they are, and so are operations whose result is not finite, eg. 1 / 0,
+ * which has no literal.
+ */
+export function simplify(ast: TProgram, options?: TSimplifyOptions): TProgram
+export function simplify(ast: TExpression, options?: TSimplifyOptions): TExpression
+export function simplify(ast: TProgram | TExpression, options: TSimplifyOptions = {}): TProgram | TExpression {
+  let functions: { [name: string]: TBuiltInFunction } = options.functions || builtIns.functions
+  let impure = options.impure || Object.keys(functions).filter(name => !signatureOf(functions[name]).pure)
+  let backend = options.backend || floatBackend
+
+  // Applies an operator to number literals as the Evaluator does with the backend, or to one
+  // literal without [right]. Returns undefined for a result which is not finite.
+  function fold(operator: string, left: TNumberLiteral, right: TNumberLiteral | undefined, at: TRange): TNumberLiteral | undefined {
+    let a = valueOf(left)
+    let b = right && valueOf(right)
+    if (a === undefined || (right !== undefined && b === undefined)) {
+      return undefined
+    }
+    let result = b === undefined ? backend.unary(operator, a) : backend.binary(operator, a, b)
+    let value = backend.isValue(result) ? backend.toNumber(result) : result as number
+    return isFinite(value) ? { type: 'NumberLiteral', value, raw: String(result), range: at } : undefined
+  }
+
+  function valueOf(node: TNumberLiteral): TValue | undefined {
+    let value = backend.parse(node.raw)
+    if (!backend.isValue(value)) {
+      value = backend.fromNumber(value)
+    }
+    return backend.isValue(value) ? value : undefined
+  }
+
+  function negate(node: TNumberLiteral): TNumberLiteral {
+    return fold('-', node, undefined, node.range)!
+  }
+
+  // Whether evaluating the node twice, or not at all, makes no difference
+  function isPure(node: TExpression): boolean {
+    let pure = true
+    walk(node, {
+      enter: child => {
+        if (child.type === 'AssignmentExpression' || child.type === 'FunctionDefinition' ||
+            (child.type === 'CallExpression' && impure.indexOf(child.callee.name) >= 0)) {
+          pure = false
+        }
+        return pure
+      }
+    })
+    return pure
+  }
+
+  function reduce(node: TExpression): TExpression {
+    let at = node.range
+
+    switch (node.type) {
+      case 'UnaryExpression': {
+        let argument = reduce(node.argument)
+        let folded = isNumber(argument) && unaryOperators.hasOwnProperty(node.operator) ?
+          fold(node.operator, argument, undefined, at) : undefined
+        if (folded) {
+          return folded
+        }
+        if (node.operator === '+') {
+          return argument
+        }
+        if (node.operator === '-') {
+          return reduceSum({ ...node, argument })
+        }
+        return { ...node, argument }
+      }
+
+      case 'BinaryExpression': {
+        let left = reduce(node.left)
+        let right = reduce(node.right)
+        let folded = isNumber(left) && isNumber(right) && binaryOperators.hasOwnProperty(node.operator) ?
+          fold(node.operator, left, right, at) : undefined
+        if (folded) {
+          return folded
+        }
+        let reduced = { ...node, left, right }
+        switch (node.operator) {
+          case '+':
+          case '-':
+            return reduceSum(reduced)
+          case '*':
+            return reduceProduct(reduced)
+          case '/':
+            // Not 0 / x or x / x, which are NaN for x = 0
+            if (isNumber(right, 1)) return left
+            return reduced
+          case '^':
+            if (isNumber(right, 0) && isPure(left)) return num(1, at)
+            if (isNumber(right, 1)) return left
+            if (isNumber(left, 1) && isPure(right)) return num(1, at)
+            return reduced
+          default:
+            return reduced
+        }
+      }
+
+      case 'LogicalExpression': {
+        let left = reduce(node.left)
+        let right = reduce(node.right)
+        if (isNumber(left)) {
+          // Only the left side decides, when it short-circuits
+          if (node.operator === '&&' && isNumber(left, 0)) return num(0, at)
+          if (node.operator === '||' && !isNumber(left, 0)) return num(1, at)
+          if (isNumber(right)) return num(isNumber(right, 0) ? 0 : 1, at)
+        }
+        return { ...node, left, right }
+      }
+
+      case 'ConditionalExpression': {
+        let test = reduce(node.test)
+        if (isNumber(test)) {
+          return reduce(isNumber(test, 0) ? node.alternate : node.consequent)
+        }
+        return { ...node, test, consequent: reduce(node.consequent), alternate: reduce(node.alternate) }
+      }
+
+      case 'CallExpression': {
+        let args = node.arguments.map(reduce)
+        let name = node.callee.name
+        let fn = functions.hasOwnProperty(name) ? functions[name] : undefined
+        if (fn && impure.indexOf(name) < 0 && args.every(arg => isNumber(arg))) {
+          // Only a real result has a literal, eg. not sqrt(-1) with complexBuiltIns.functions
+          let value = fn(...args.map(arg => (arg as TNumberLiteral).value))
+          if (typeof value === 'number' && isFinite(value)) {
+            return num(value, at)
+          }
+        }
+        return { ...node, arguments: args }
+      }
+
+      case 'AssignmentExpression':
+      case 'ConversionExpression':
+        return { ...node, value: reduce(node.value) }
+
+      case 'FunctionDefinition':
+        return { ...node, body: reduce(node.body) }
+
+      case 'ArrayExpression':
+        return { ...node, elements: node.elements.map(reduce) }
+
+      case 'IndexExpression':
+        return { ...node, object: reduce(node.object), index: reduce(node.index) }
+
+      default:
+        return node
+    }
+  }
+
+  // Collects the terms of a chain of '+', '-' and unary '-', adding up numbers and like terms
+  function reduceSum(node: TExpression): TExpression {
+    let terms: TTerm[] = []
+
+    function collect(node: TExpression, sign: number): void {
+      if (node.type === 'BinaryExpression' && (node.operator === '+' || node.operator === '-')) {
+        collect(node.left, sign)
+        collect(node.right, node.operator === '-' ? -sign : sign)
+      } else if (node.type === 'UnaryExpression' && node.operator === '-') {
+        collect(node.argument, -sign)
+      } else if (isNumber(node)) {
+        addTerm(terms, sign < 0 ? negate(node) : node, undefined)
+      } else {
+        let { coefficient, rest } = splitCoefficient(node)
+        addTerm(terms, sign < 0 ? negate(coefficient) : coefficient, rest)
+      }
+    }
+
+    function addTerm(terms: TTerm[], coefficient: TNumberLiteral, term: TExpression | undefined): void {
+      let like = terms.find(other => other.term === undefined ? term === undefined :
+        term !== undefined && isPure(term) && !hasUnit(term) && key(other.term) === key(term))
+      let sum = like && fold('+', like.coefficient, coefficient, coefficient.range)
+      if (like && sum) {
+        like.coefficient = sum
+      } else {
+        terms.push({ coefficient, term })
+      }
+    }
+
+    collect(node, 1)
+
+    let at = node.range
+    let result: TExpression | undefined
+    for (let { coefficient: literal, term } of terms) {
+      let coefficient: TNumberLiteral = { ...literal, range: at }
+      if (equals(coefficient, 0) && (term === undefined || isPure(term) && !hasUnit(term))) {
+        continue
+      }
+      if (result === undefined) {
+        result = term === undefined ? coefficient : scale(coefficient, term, at)
+      } else {
+        let absolute = coefficient.value < 0 ? negate(coefficient) : coefficient
+        result = binary(coefficient.value < 0 ? '-' : '+', result, term === undefined ? absolute : scale(absolute, term, at), at)
+      }
+    }
+    return result || num(0, at)
+  }
+
+  // Multiplies out the numbers of a chain of '*' and combines like factors into powers. Only
+  // neighbouring factors are combined, as the product of matrices depends on their order.
+  function reduceProduct(node: TExpression): TExpression {
+    let at = node.range
+    let coefficient: TNumberLiteral = num(1, at)
+    let factors: TFactor[] = []
+
+    function collect(node: TExpression): void {
+      let product = isNumber(node) ? fold('*', coefficient, node, at) : undefined
+      if (node.type === 'BinaryExpression' && node.operator === '*') {
+        collect(node.left)
+        collect(node.right)
+      } else if (node.type === 'UnaryExpression' && node.operator === '-') {
+        coefficient = negate(coefficient)
+        collect(node.argument)
+      } else if (product) {
+        coefficient = product
+      } else if (node.type === 'BinaryExpression' && node.operator === '^' && isNumber(node.right)) {
+        addFactor(node.left, node.right)
+      } else {
+        addFactor(node, num(1, at))
+      }
+    }
+
+    function addFactor(base: TExpression, exponent: TNumberLiteral): void {
+      let last = factors[factors.length - 1]
+      let like = last !== undefined && isPure(base) && key(last.base) === key(base) ? last : undefined
+      let sum = like && fold('+', like.exponent, exponent, at)
+      if (like && sum) {
+        like.exponent = sum
+      } else {
+        factors.push({ base, exponent })
+      }
+    }
+
+    collect(node)
+
+    coefficient = { ...coefficient, range: at }
+    if (equals(coefficient, 0) && factors.every(factor => isPure(factor.base) && !hasUnit(factor.base))) {
+      return num(0, at)
+    }
+    // The coefficient leads the chain, so that 2 * x * y prints without parentheses
+    let product: TExpression | undefined = equals(coefficient, 1) || equals(coefficient, -1) ? undefined : coefficient
+    for (let { base, exponent } of factors) {
+      if (equals(exponent, 0) && isPure(base)) {
+        continue
+      }
+      let factor = equals(exponent, 1) ? base : binary('^', base, { ...exponent, range: at }, at)
+      product = product === undefined ? factor : binary('*', product, factor, at)
+    }
+    if (product === undefined) {
+      return coefficient
+    }
+    return equals(coefficient, -1) ? scale(coefficient, product, at) : product
+  }
+
+  if (ast.type === 'Program') {
+    return { ...ast, body: ast.body.map(reduce) }
+  }
+  return reduce(ast)
+}
+
+// Structural identity of a sub-tree
+function key(node: TExpression): string {
+  return print(node)
+}
+
+// Whether the node may have a unit, which a zero keeps, eg. 1 m - 1 m is 0 m rather than 0
+function hasUnit(node: TExpression): boolean {
+  let found = false
+  walk(node, {
+    enter: child => {
+      if (child.type === 'QuantityLiteral' || child.type === 'ConversionExpression') {
+        found = true
+      }
+      return !found
+    }
+  })
+  return found
+}
+
+// Splits a leading number off a product, eg. 3 * x * y into 3 and x * y
+function splitCoefficient(node: TExpression): { coefficient: TNumberLiteral, rest: TExpression } {
+  if (node.type === 'BinaryExpression' && node.operator === '*') {
+    if (isNumber(node.left)) {
+      return { coefficient: node.left, rest: node.right }
+    }
+    let inner = splitCoefficient(node.left)
+    if (!equals(inner.coefficient, 1)) {
+      return { coefficient: inner.coefficient, rest: binary('*', inner.rest, node.right, node.range) }
+    }
+  }
+  return { coefficient: num(1, node.range), rest: node }
+}
+
+// Multiplies the term by a number, eg. 2 * x, 1 * x as x and -1 * x as -x
+function scale(coefficient: TNumberLiteral, term: TExpression, at: TRange): TExpression {
+  if (equals(coefficient, 1)) {
+    return term
+  }
+  if (equals(coefficient, -1)) {
+    return { type: 'UnaryExpression', operator: '-', argument: term, range: at }
+  }
+  return binary('*', { ...coefficient, range: at }, term, at)
+}
+
+function num(value: number, at: TRange): TNumberLiteral {
+  return { type: 'NumberLiteral', value, raw: String(value), range: at }
+}
+
+function isNumber(node: TExpression, value?: number): node is TNumberLiteral {
+  return node.type === 'NumberLiteral' && (value === undefined || equals(node, value))
+}
+
+// Whether the literal is exactly [value], judged by its source text, as eg. 1.00000000000000000001
+// is 1 as a float but not for the DecimalBackend
+function equals(node: TNumberLiteral, value: number): boolean {
+  return node.value === value && String(Decimal.parse(node.raw)) === String(value)
+}
+
+function binary(operator: string, left: TExpression, right: TExpression, at: TRange): TExpression {
+  return { type: 'BinaryExpression', operator, left, right, range: at }
+}
@@ -0,0 +1,69 @@
+import {LexerTokens, TNode, TRange, TToken, walk} from "./tapDigit"
+
+// The offsets of an opening bracket and the one closing it
+export type TBracketPair = { open: number, close: number }
+
+export type TBrackets = {
+  pairs: TBracketPair[]
+  // Offsets of brackets without a match, or closed by the wrong kind
+  unbalanced: number[]
+}
+
+const closing: { [open: string]: string } = { '(': ')', '[': ']' }
+
+/**
+ * Pairs up the parentheses and square brackets among the tokens of Lexer.tokenize()
+ */
+export function matchBrackets(tokens: TToken[]): TBrackets {
+  let brackets: TBrackets = { pairs: [], unbalanced: [] }
+  let open: TToken[] = []
+  for (let token of tokens) {
+    if (token.type !== LexerTokens.operator) {
+      continue
+    }
+    if (closing.hasOwnProperty(token.value)) {
+      open.push(token)
+    } else if (token.value === ')' || token.value === ']') {
+      let opener = open.pop()
+      if (opener === undefined) {
+        brackets.unbalanced.push(token.start!)
+      } else if (closing[opener.value] !== token.value) {
+        brackets.unbalanced.push(opener.start!, token.start!)
+      } else {
+        brackets.pairs.push({ open: opener.start!, close: token.start! })
+      }
+    }
+  }
+  brackets.unbalanced = brackets.unbalanced.concat(open.map(token => token.start!)).sort((a, b) => a - b)
+  brackets.pairs.sort((a, b) => a.open - b.open)
+  return brackets
+}
+
+/**
+ * Returns the pair of the bracket just after the cursor, or else of the one just before it
+ */
+export function bracketAt(brackets: TBrackets, offset: number): TBracketPair | undefined {
+  let at = (position: number) => brackets.pairs.find(pair => pair.open === position || pair.close === position)
+  return at(offset) || at(offset - 1)
+}
+
+/**
+ * Returns the range of the smallest node of the tree which holds the selection and is larger than it,
+ * eg. an argument, then the call, then the expression the call is part of, or undefined at the root
+ */
+export function enclosingRange(root: TNode, selection: TRange): TRange | undefined {
+  let result: TRange | undefined
+  walk(root, {
+    enter: node => {
+      let range = node.range
+      if (range.start > selection.start || range.end < selection.end) {
+        return false
+      }
+      if (range.end - range.start > selection.end - selection.start &&
+          (result === undefined || range.end - range.start <= result.end - result.start)) {
+        result = range
+      }
+    }
+  })
+  return result
+}
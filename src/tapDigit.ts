@@ -26,33 +26,381 @@
   THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
 */
 
-type TToken = {
+import {Complex, complexAware, complexFunctions, complexOperation, toComplex} from "./complex"
+import {Decimal} from "./decimal"
+import {TArity, arityOf, mathFunctions, signatureOf} from "./functions"
+import {Matrix, formatShape, fromRows, inverse, matrixAware, matrixFunctions, toRows} from "./matrix"
+import {Quantity, TDimension, TUnitDefinition, combineDimensions, combineUnits, findUnit, formatDimension, isDimensionless,
+  resolveUnit, sameDimension, scaleDimension, units} from "./units"
+
+export type TToken = {
   type: string,
   value: any,
   start?: number,
-  end?: number
+  end?: number,
+  // Why an Invalid token of Lexer.tokenize() could not be scanned
+  error?: TDiagnostic
 }
 
-type TNode = {
-  Expression?: TNode
-  Identifier?: string // Variable name
-  Number?: string     // Number literal (as string)
-  Unary?: {           // An operation on a single item (eg. -5)
-    operator: string
-    expr: TNode
+// A change of the input: the characters from [start] up to [end] were replaced by [inserted] characters
+export type TEdit = { start: number, end: number, inserted: number }
+
+// Source offsets of a node, [start] is the first character and [end] is one past the last
+export type TRange = { start: number, end: number }
+
+export type TNumberLiteral = {
+  type: 'NumberLiteral'
+  value: number
+  raw: string             // The literal as written, eg. 1e3
+  range: TRange
+}
+
+export type TUnitTerm = { name: string, exponent: number } // eg. s^-2 as {name: 's', exponent: -2}
+
+export type TQuantityLiteral = { // A number with a unit of measure (eg. 4 km/h)
+  type: 'QuantityLiteral'
+  value: number
+  raw: string             // The number as written
+  unit: TUnitTerm[]
+  range: TRange
+}
+
+export type TImaginaryLiteral = { // A number directly followed by i (eg. 4i), in complex mode
+  type: 'ImaginaryLiteral'
+  value: number           // The imaginary part
+  raw: string             // The number as written, without the i
+  range: TRange
+}
+
+export type TIdentifier = {
+  type: 'Identifier'
+  name: string
+  range: TRange
+}
+
+export type TUnaryExpression = { // An operation on a single item (eg. -5)
+  type: 'UnaryExpression'
+  operator: string
+  argument: TExpression
+  range: TRange
+}
+
+export type TBinaryExpression = { // An arithmetic or comparison operation between two items
+  type: 'BinaryExpression'
+  operator: string
+  left: TExpression
+  right: TExpression
+  range: TRange
+  operatorRange?: TRange  // Of the operator, set by the Parser
+}
+
+export type TLogicalExpression = { // A short-circuiting '&&' or '||'
+  type: 'LogicalExpression'
+  operator: string
+  left: TExpression
+  right: TExpression
+  range: TRange
+}
+
+export type TConversionExpression = { // Convert [value] to another unit of the same dimension (eg. 5 ft to m)
+  type: 'ConversionExpression'
+  operator: string        // 'to' or 'in'
+  value: TExpression
+  unit: TUnitTerm[]
+  range: TRange
+  operatorRange?: TRange
+}
+
+export type TArrayExpression = { // A vector (eg. [1, 2, 3]), or a matrix of rows (eg. [[1, 2], [3, 4]])
+  type: 'ArrayExpression'
+  elements: TExpression[]
+  range: TRange
+}
+
+export type TIndexExpression = { // An element of a vector or a row of a matrix, counting from 0 (eg. v[0])
+  type: 'IndexExpression'
+  object: TExpression
+  index: TExpression
+  range: TRange
+}
+
+export type TConditionalExpression = { // Ternary [test] ? [consequent] : [alternate]
+  type: 'ConditionalExpression'
+  test: TExpression
+  consequent: TExpression
+  alternate: TExpression
+  range: TRange
+}
+
+export type TAssignmentExpression = { // Assign [value] to variable [name]
+  type: 'AssignmentExpression'
+  name: TIdentifier
+  value: TExpression
+  range: TRange
+}
+
+export type TCallExpression = { // A call of a built-in or user-defined function (eg. foo(5))
+  type: 'CallExpression'
+  callee: TIdentifier
+  arguments: TExpression[]
+  range: TRange
+}
+
+export type TFunctionDefinition = { // A user-defined function (eg. f(x, y) = x^2 + y)
+  type: 'FunctionDefinition'
+  name: TIdentifier
+  params: TIdentifier[]
+  body: TExpression
+  range: TRange
+}
+
+export type TError = { // Stands in for what the tolerant parser could not make sense of
+  type: 'Error'
+  code: ErrorCode
+  message: string
+  range: TRange
+  // What the diagnostic was made of, to raise the same error when evaluated
+  params: TMessageParams
+  details: Pick<TDiagnostic, 'expected' | 'found' | 'suggestions'>
+}
+
+export type TExpression =
+  TError |
+  TNumberLiteral |
+  TQuantityLiteral |
+  TImaginaryLiteral |
+  TIdentifier |
+  TUnaryExpression |
+  TBinaryExpression |
+  TLogicalExpression |
+  TConversionExpression |
+  TArrayExpression |
+  TIndexExpression |
+  TConditionalExpression |
+  TAssignmentExpression |
+  TCallExpression |
+  TFunctionDefinition
+
+export type TProgram = { // Statements separated by ';', evaluated in order
+  type: 'Program'
+  body: TExpression[]
+  range: TRange
+}
+
+export type TNode = TExpression | TProgram
+
+// Stable codes of every error and warning, safe to match on and to translate
+export enum ErrorCode {
+  // Lexer
+  UnknownCharacter = 'unknown-character',
+  InvalidExponent = 'invalid-exponent',
+  MissingDigits = 'missing-digits',
+  // Parser
+  UnexpectedToken = 'unexpected-token',
+  UnexpectedEnd = 'unexpected-end',
+  MissingToken = 'missing-token',
+  EmptyArgument = 'empty-argument',
+  EmptyElement = 'empty-element',
+  NestedDefinition = 'nested-definition',
+  BuiltInRedefinition = 'built-in-redefinition',
+  InvalidParameter = 'invalid-parameter',
+  DuplicateParameter = 'duplicate-parameter',
+  ConstantAssignment = 'constant-assignment',
+  // Parser warnings and Evaluator
+  UnknownFunction = 'unknown-function',
+  UnknownIdentifier = 'unknown-identifier',
+  ArityMismatch = 'arity-mismatch',
+  TooFewArguments = 'too-few-arguments',
+  TooManyArguments = 'too-many-arguments',
+  // Parser and Evaluator
+  UnknownUnit = 'unknown-unit',
+  // Evaluator
+  UnknownOperator = 'unknown-operator',
+  UnknownSyntax = 'unknown-syntax',
+  InvalidCallback = 'invalid-callback',
+  CallDepthExceeded = 'call-depth-exceeded',
+  DimensionMismatch = 'dimension-mismatch',
+  UnitArgument = 'unit-argument',
+  ComplexArgument = 'complex-argument',
+  ComplexOperand = 'complex-operand',
+  ShapeMismatch = 'shape-mismatch',
+  NotIndexable = 'not-indexable',
+  IndexOutOfRange = 'index-out-of-range',
+  // derivative()
+  NotDifferentiable = 'not-differentiable',
+  SizeExceeded = 'size-exceeded',
+  // Sheet
+  CircularReference = 'circular-reference',
+  // Limits of the Lexer, Parser and Evaluator
+  InputTooLong = 'input-too-long',
+  DepthExceeded = 'depth-exceeded',
+  StepsExceeded = 'steps-exceeded',
+  TimeExceeded = 'time-exceeded',
+}
+
+// Values filled into a message template, eg. {name: 'foo'} for 'Unknown function "{name}()"'
+export type TMessageParams = { [name: string]: string | number }
+
+export type TDiagnostic = {
+  code: ErrorCode
+  severity: 'error' | 'warning'
+  message: string           // The message from the current templates, see formatMessage()
+  range: TRange             // The offending source
+  params: TMessageParams
+  expected?: string[]       // Tokens which would have been valid
+  found?: string            // The token found instead, '<end>' at the end of the input
+  suggestions?: string[]    // Known names close to an unknown one
+}
+
+/**
+ * The English message of every error code. Replace entries to change the message of
+ * errors raised from then on, or pass other templates to formatMessage().
+ */
+export const messageTemplates: { [code in ErrorCode]: string } = {
+  [ErrorCode.UnknownCharacter]: 'Unknown token from character {found}',
+  [ErrorCode.InvalidExponent]: 'Unexpected {found} after the exponent sign',
+  [ErrorCode.MissingDigits]: 'Expecting decimal digits after the dot sign',
+  [ErrorCode.UnexpectedToken]: 'Unexpected token "{found}"',
+  [ErrorCode.UnexpectedEnd]: 'Unexpected end of expression',
+  [ErrorCode.MissingToken]: 'Expecting "{expected}"',
+  [ErrorCode.EmptyArgument]: 'Expecting an argument',
+  [ErrorCode.EmptyElement]: 'Expecting an element',
+  [ErrorCode.NestedDefinition]: 'Function "{name}()" can\'t be defined inside another function',
+  [ErrorCode.BuiltInRedefinition]: 'Cannot redefine built-in function "{name}()"',
+  [ErrorCode.InvalidParameter]: 'Expecting parameter names in the definition of "{name}()"',
+  [ErrorCode.DuplicateParameter]: 'Duplicate parameter "{param}" in the definition of "{name}()"',
+  [ErrorCode.ConstantAssignment]: 'Cannot assign to constant "{name}"',
+  [ErrorCode.UnknownFunction]: 'Unknown function "{name}()"',
+  [ErrorCode.UnknownIdentifier]: 'Unknown identifier "{name}"',
+  [ErrorCode.ArityMismatch]: 'Function {name}() expects {expected} arg(s), found {found}',
+  [ErrorCode.TooFewArguments]: 'Function {name}() expects at least {min} arg(s), found {found}',
+  [ErrorCode.TooManyArguments]: 'Function {name}() expects at most {max} arg(s), found {found}',
+  [ErrorCode.UnknownUnit]: 'Unknown unit "{name}"',
+  [ErrorCode.UnknownOperator]: 'Unknown operator {operator}',
+  [ErrorCode.UnknownSyntax]: 'Unknown syntax node',
+  [ErrorCode.InvalidCallback]: 'The function "{name}" does not have a valid callback',
+  [ErrorCode.CallDepthExceeded]: 'Maximum call depth of {limit} exceeded in function {name}()',
+  [ErrorCode.DimensionMismatch]: 'Dimension mismatch: {left} and {right}',
+  [ErrorCode.UnitArgument]: 'Function {name}() expects a number without unit, found {found}',
+  [ErrorCode.ComplexArgument]: 'Function {name}() expects a real number, found {found}',
+  [ErrorCode.ComplexOperand]: 'Operator {operator} expects real numbers, found {found}',
+  [ErrorCode.ShapeMismatch]: 'Shape mismatch: {left} and {right}',
+  [ErrorCode.NotIndexable]: 'Cannot index {found}, only a vector or matrix',
+  [ErrorCode.IndexOutOfRange]: 'Index {index} is out of range for length {length}',
+  [ErrorCode.NotDifferentiable]: 'Cannot differentiate {what}',
+  [ErrorCode.SizeExceeded]: 'Derivative exceeds the limit of {limit} nodes',
+  [ErrorCode.CircularReference]: 'Circular reference {path}',
+  [ErrorCode.InputTooLong]: 'Expression of {length} characters exceeds the limit of {limit}',
+  [ErrorCode.DepthExceeded]: 'Expression nests deeper than the limit of {limit} levels',
+  [ErrorCode.StepsExceeded]: 'Evaluation exceeded the limit of {limit} steps',
+  [ErrorCode.TimeExceeded]: 'Evaluation exceeded the time limit of {limit} ms',
+}
+
+/**
+ * Fills the params into the template of the code, eg. to show a diagnostic in another language
+ */
+export function formatMessage(code: ErrorCode, params: TMessageParams,
+                              templates: { [code: string]: string } = messageTemplates): string {
+  let template = templates[code] !== undefined ? templates[code] : messageTemplates[code]
+  return template.replace(/{(\w+)}/g, (match, name) => params.hasOwnProperty(name) ? String(params[name]) : match)
+}
+
+/**
+ * Creates a diagnostic with its message from the current templates
+ */
+export function createDiagnostic(code: ErrorCode, severity: 'error' | 'warning', range: TRange, params: TMessageParams = {},
+                          details: Pick<TDiagnostic, 'expected' | 'found' | 'suggestions'> = {}): TDiagnostic {
+  return { code, severity, message: formatMessage(code, params), range, params, ...details }
+}
+
+/**
+ * Returns the candidates within a few typos of the name, closest first
+ */
+function suggest(name: string, candidates: string[]): string[] {
+  let maxDistance = Math.min(2, Math.floor(name.length / 2))
+  return candidates
+    .filter((candidate, i) => candidates.indexOf(candidate) === i)
+    .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+    .filter(match => match.distance > 0 && match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .map(match => match.candidate)
+}
+
+// Levenshtein distance: the number of single character edits turning one string into the other
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i += 1) {
+    let current = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      let substitution = previous[j - 1] + (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// What an expression evaluates to, Decimal with the DecimalBackend and Complex from imaginary numbers
+export type TValue = number | Quantity | Decimal | Complex | Matrix
+
+// A built-in function, taking numbers, or complex numbers as well when it is in complexAware
+export type TBuiltInFunction = (...args: any[]) => TValue
+
+export type TScope = { [name: string]: TValue }
+
+// A node compiled by Evaluator.compile(), taking the variables and the scope of the current call
+type TCompiled = (variables: TScope, scope?: TScope) => TValue
+
+/**
+ * Returns the direct children of a node, in source order
+ */
+export function children(node: TNode): TNode[] {
+  switch (node.type) {
+    case 'Program':
+      return node.body
+    case 'UnaryExpression':
+      return [node.argument]
+    case 'BinaryExpression':
+    case 'LogicalExpression':
+      return [node.left, node.right]
+    case 'ConversionExpression':
+      return [node.value]
+    case 'ArrayExpression':
+      return node.elements
+    case 'IndexExpression':
+      return [node.object, node.index]
+    case 'ConditionalExpression':
+      return [node.test, node.consequent, node.alternate]
+    case 'AssignmentExpression':
+      return [node.name, node.value]
+    case 'CallExpression':
+      return [node.callee, ...node.arguments]
+    case 'FunctionDefinition':
+      return [node.name, ...node.params, node.body]
+    default:
+      return []
   }
-  Binary?: {          // An operation between two items
-    operator: string
-    left: TNode
-    right: TNode
+}
+
+export type TVisitor = {
+  // Called before the children are visited, returning false skips them
+  enter?: (node: TNode, parent: TNode | undefined) => void | boolean
+  // Called after the children are visited
+  leave?: (node: TNode, parent: TNode | undefined) => void
+}
+
+/**
+ * Visits a node and all of its descendants depth-first, in source order
+ */
+export function walk(node: TNode, visitor: TVisitor, parent?: TNode): void {
+  if (visitor.enter && visitor.enter(node, parent) === false) {
+    return
   }
-  Assignment?: {     // Assign [value] to variable [name]
-    name: { Identifier: string }
-    value: TNode
+  for (let child of children(node)) {
+    walk(child, visitor, node)
   }
-  FunctionCall?: {   // Custom functions for non-built-in operations (eg. foo(5))
-    name: string
-    args: TNode[]
+  if (visitor.leave) {
+    visitor.leave(node, parent)
   }
 }
 
@@ -62,38 +410,246 @@ export const builtIns = {
     pi: 3.1415926535897932384,
     phi: 1.6180339887498948482
   },
+  // Signatures of the functions, for checking calls and for signature help, come from signatureOf()
   functions: {
-    abs: Math.abs,
-    acos: Math.acos,
-    asin: Math.asin,
-    atan: Math.atan,
-    ceil: Math.ceil,
-    cos: Math.cos,
-    exp: Math.exp,
-    ln: Math.log,
-    sin: Math.sin,
-    sqrt: Math.sqrt,
-    tan: Math.tan,
-    floor: Math.floor,
-    random: Math.random,
+    ...mathFunctions,
+    ...matrixFunctions,
   },
+  // Units of measure which may follow a number, extend a copy to add units of a domain
+  units,
 }
 
+// Complex mode, eg. new Evaluator(complexBuiltIns.functions, complexBuiltIns.identifiers): adds the
+// imaginary unit i, and functions such as sqrt() and ln() take and give complex numbers
+export const complexBuiltIns = {
+  identifiers: { ...builtIns.identifiers, i: Complex.I } as { [name: string]: TValue },
+  functions: { ...builtIns.functions, ...complexFunctions } as { [name: string]: TBuiltInFunction },
+}
 
-const LexerTokens = {
+// Conditions and logical operators take a quantity by its value, like a number,
+// and a vector or matrix as true when it has elements and all of them are true
+function isTrue(value: TValue): boolean {
+  if (typeof value === 'number') {
+    return !!value
+  }
+  if (value instanceof Matrix) {
+    return value.length > 0 && value.elements.every(isTrue)
+  }
+  return value instanceof Quantity ? !!value.value : !value.isZero()
+}
+
+// Decimals turn into floats where they meet something only floats can handle, eg. a unit.
+// Complex numbers have no float, unless they are real, and neither do matrices.
+function toNumber(value: number | Decimal | Complex | Matrix): number {
+  if (value instanceof Matrix) {
+    return NaN
+  }
+  if (value instanceof Complex) {
+    return value.im === 0 ? value.re : NaN
+  }
+  return typeof value === 'number' ? value : value.toNumber()
+}
+
+// The number of dimensions, 1 for a vector and 2 for a matrix
+function rank(value: Matrix): number {
+  return shapeOf(value).length
+}
+
+// A scalar has no dimensions, and rows of different shapes are only counted
+function shapeOf(value: TValue): number[] {
+  return value instanceof Matrix ? value.shape() || [value.length] : []
+}
+
+function toQuantity(value: TValue): Quantity {
+  return value instanceof Quantity ? value : new Quantity(toNumber(value), [], 1, {})
+}
+
+function toValue(quantity: Quantity): TValue {
+  return isDimensionless(quantity.dimension) ? quantity.value * quantity.factor : quantity
+}
+
+// Signs keep the unit, '!' only looks at the value
+function quantityUnaryOperation(operator: string, value: Quantity): TValue {
+  if (operator === '!') {
+    return unaryOperators[operator](value.value)
+  }
+  return new Quantity(unaryOperators[operator](value.value), value.unit, value.factor, value.dimension)
+}
+
+/**
+ * Applies a binary operator to two values of which at least one has a unit.
+ * Returns undefined if the dimensions don't allow it, eg. for 1 m + 1 s.
+ */
+function quantityOperation(operator: string, left: Quantity, right: Quantity): TValue | undefined {
+  let apply = binaryOperators[operator]
+  switch (operator) {
+    case '+':
+    case '-':
+    case '%':
+      // The result takes the unit of the left side
+      if (!sameDimension(left.dimension, right.dimension)) {
+        return undefined
+      }
+      return toValue(new Quantity(apply(left.value, right.value * right.factor / left.factor),
+        left.unit, left.factor, left.dimension))
+    case '*':
+    case '/': {
+      let sign = operator === '*' ? 1 : -1
+      return toValue(new Quantity(apply(left.value, right.value), combineUnits(left.unit, right.unit, sign),
+        apply(left.factor, right.factor), combineDimensions(left.dimension, right.dimension, sign)))
+    }
+    case '^': {
+      if (!isDimensionless(right.dimension)) {
+        return undefined
+      }
+      let power = right.value * right.factor
+      let unit = left.unit.map(term => ({ name: term.name, exponent: term.exponent * power }))
+      return toValue(new Quantity(apply(left.value, power), unit.filter(term => term.exponent !== 0),
+        Math.pow(left.factor, power), scaleDimension(left.dimension, power)))
+    }
+    default:
+      // Comparisons, in base units
+      if (!sameDimension(left.dimension, right.dimension)) {
+        return undefined
+      }
+      return apply(left.value * left.factor, right.value * right.factor)
+  }
+}
+
+
+// Arithmetic and comparison operators, shared by Evaluator.exec(), Evaluator.compile() and simplify().
+// Logical operators are missing on purpose: they short-circuit, so they need the unevaluated operands.
+export const binaryOperators: { [operator: string]: (left: number, right: number) => number } = {
+  '+': (left, right) => left + right,
+  '-': (left, right) => left - right,
+  '*': (left, right) => left * right,
+  '/': (left, right) => left / right,
+  '%': (left, right) => left % right,
+  '^': (left, right) => Math.pow(left, right),
+  '<': (left, right) => left < right ? 1 : 0,
+  '<=': (left, right) => left <= right ? 1 : 0,
+  '>': (left, right) => left > right ? 1 : 0,
+  '>=': (left, right) => left >= right ? 1 : 0,
+  '==': (left, right) => left === right ? 1 : 0,
+  '!=': (left, right) => left !== right ? 1 : 0,
+}
+
+export const unaryOperators: { [operator: string]: (value: number) => number } = {
+  '+': value => value,
+  '-': value => -value,
+  '!': value => value ? 0 : 1,
+}
+
+/**
+ * The arithmetic on numbers without units. The Evaluator hands number literals to parse() as
+ * written, and the operators to the backend once either side is one of its values. Results
+ * may be plain numbers, eg. for comparisons or where the backend gives up, eg. 1 / 0.
+ */
+export interface NumericBackend<N extends TValue> {
+  parse(raw: string): N | number
+  isValue(value: unknown): value is N
+  fromNumber(value: number): N | number
+  toNumber(value: N): number
+  binary(operator: string, left: N, right: N): N | number
+  unary(operator: string, value: N): N | number
+}
+
+// JavaScript numbers, the default of the Evaluator
+export const floatBackend: NumericBackend<number> = {
+  parse: raw => parseFloat(raw),
+  isValue: (value): value is number => typeof value === 'number',
+  fromNumber: value => value,
+  toNumber: value => value,
+  binary: (operator, left, right) => binaryOperators[operator](left, right),
+  unary: (operator, value) => unaryOperators[operator](value),
+}
+
+// The types of tokens, which the Editor uses as CSS classes
+export const LexerTokens = {
   operator: 'Operator',
   identifier: 'Identifier',
-  number: 'Number'
+  number: 'Number',
+  // Only given by Lexer.tokenize()
+  whitespace: 'Whitespace',
+  invalid: 'Invalid'
+}
+
+/**
+ * Returns the smallest edit which turns one input into the other, eg. for Lexer.retokenize()
+ */
+export function findEdit(before: string, after: string): TEdit {
+  let start = 0
+  while (start < before.length && start < after.length && before.charAt(start) === after.charAt(start)) {
+    start += 1
+  }
+  let end = before.length
+  let afterEnd = after.length
+  while (end > start && afterEnd > start && before.charAt(end - 1) === after.charAt(afterEnd - 1)) {
+    end -= 1
+    afterEnd -= 1
+  }
+  return { start, end, inserted: afterEnd - start }
 }
 
-export class LexerError extends Error {
+/**
+ * Base of the errors raised by the Lexer, Parser and Evaluator, carrying what went wrong as a diagnostic
+ */
+export class DiagnosticError extends Error {
+  code: ErrorCode
   position: number
+  range: TRange
   message: string
 
-  constructor(lexer: Lexer, message: string) {
+  constructor(readonly diagnostic: TDiagnostic) {
     super()
-    this.position = Math.max(lexer.marker - 1, 0)
-    this.message = `${message} at character ${this.position}`
+    this.code = diagnostic.code
+    this.position = diagnostic.range.start
+    this.range = diagnostic.range
+    this.message = diagnostic.message
+  }
+}
+
+/**
+ * Base of the errors raised when an expression exceeds a limit set on the Lexer, Parser or Evaluator.
+ * Unlike other errors they are thrown by parseTolerant() as well.
+ */
+export class LimitError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+// The input is longer than Lexer.maxLength
+export class InputLengthError extends LimitError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+// The expression nests deeper than Parser.maxDepth
+export class DepthLimitError extends LimitError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+// Evaluation took more than Evaluator.maxSteps steps
+export class StepLimitError extends LimitError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+// Evaluation ran longer than Evaluator.timeLimit
+export class TimeLimitError extends LimitError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
+  }
+}
+
+export class LexerError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
   }
 }
 
@@ -102,8 +658,14 @@ export class Lexer {
   length = 0
   index = 0
   marker = 0
+  // The longest input reset() takes
+  public maxLength = Infinity
 
   public reset(str: string): void {
+    if (str.length > this.maxLength) {
+      let range = { start: this.maxLength, end: str.length }
+      throw new InputLengthError(createDiagnostic(ErrorCode.InputTooLong, 'error', range, { length: str.length, limit: this.maxLength }))
+    }
     this.expression = str
     this.length = str.length
     this.index = 0
@@ -133,7 +695,52 @@ export class Lexer {
       return token
     }
 
-    throw new LexerError(this, 'Unknown token from character ' + this.peekNextChar())
+    throw this.error(ErrorCode.UnknownCharacter, { found: this.peekNextChar() }, this.index + 1)
+  }
+
+  /**
+   * Splits the input into tokens which cover every character: spaces make Whitespace tokens, and
+   * what can't be scanned makes an Invalid token with the error, rather than being thrown.
+   * Only a LimitError is thrown.
+   */
+  public tokenize(str: string): TToken[] {
+    this.reset(str)
+    let tokens = [] as TToken[]
+    while (this.index < this.length) {
+      tokens.push(this.scanToken())
+    }
+    return tokens
+  }
+
+  /**
+   * Updates the tokens of an input for an edit which gave the new input. Scanning starts at the token
+   * next to the edit and stops as soon as it is back in step with the old tokens after it, which are
+   * kept, moved by the change in length; the tokens before the edit are kept as they are.
+   */
+  public retokenize(tokens: TToken[], str: string, edit: TEdit): TToken[] {
+    this.reset(str)
+    // A token ending just before the edit can change too, since scanning it peeked at the next character
+    let first = 0
+    while (first < tokens.length && tokens[first].end! + 1 < edit.start) {
+      first += 1
+    }
+    let result = tokens.slice(0, first)
+    let shift = edit.inserted - (edit.end - edit.start)
+    let next = first
+    this.index = first < tokens.length ? tokens[first].start! : 0
+    while (this.index < this.length) {
+      // Back in step at a token of the old input after the edit
+      while (next < tokens.length && tokens[next].start! + shift < this.index) {
+        next += 1
+      }
+      if (next < tokens.length && tokens[next].start! >= edit.end && tokens[next].start! + shift === this.index) {
+        return result.concat(shift === 0 ? tokens.slice(next) : tokens.slice(next).map(token => (
+          { ...token, start: token.start! + shift, end: token.end! + shift }
+        )))
+      }
+      result.push(this.scanToken())
+    }
+    return result
   }
 
   public peek(): TToken | undefined {
@@ -141,10 +748,6 @@ export class Lexer {
     let idx = this.index
     try {
       token = this.next()
-      if (token !== undefined) {
-        delete token.start
-        delete token.end
-      }
     } catch (e) {
       token = undefined
     }
@@ -153,6 +756,32 @@ export class Lexer {
     return token
   }
 
+  // The next token of tokenize(), whitespace included
+  private scanToken(): TToken {
+    if (this.isWhiteSpace(this.peekNextChar())) {
+      this.marker = this.index
+      this.skipSpaces()
+      return this.createToken(LexerTokens.whitespace, this.expression.substring(this.marker, this.index))
+    }
+    try {
+      return this.next()!
+    } catch (e) {
+      if (!(e instanceof LexerError)) {
+        throw e
+      }
+      // The characters up to the fault, and at least one
+      this.index = Math.max(this.index, e.range.end, this.marker + 1)
+      let token = this.createToken(LexerTokens.invalid, this.expression.substring(this.marker, this.index))
+      return { ...token, error: e.diagnostic }
+    }
+  }
+
+  // The error for the token being scanned, up to [end]
+  private error(code: ErrorCode, params: TMessageParams, end: number): LexerError {
+    let details = params.found !== undefined ? { found: String(params.found) } : {}
+    return new LexerError(createDiagnostic(code, 'error', { start: this.marker, end }, params, details))
+  }
+
   private createToken(type: string, value: any): TToken {
     return {
       type,
@@ -189,7 +818,12 @@ export class Lexer {
 
   private scanOperator(): TToken | undefined {
     let ch = this.peekNextChar()
-    if ('+-*/()^%=;,'.indexOf(ch) >= 0) {
+    let str = this.expression.substr(this.index, 2)
+    if (['<=', '>=', '==', '!=', '&&', '||'].indexOf(str) >= 0) {
+      this.index += 2
+      return this.createToken(LexerTokens.operator, str)
+    }
+    if ('+-*/()[]^%=;,<>!?:'.indexOf(ch) >= 0) {
       return this.createToken(LexerTokens.operator, this.getNextChar())
     }
     return undefined
@@ -255,16 +889,15 @@ export class Lexer {
           number += this.getNextChar()
         }
       } else {
-        ch = 'character ' + ch
         if (this.index >= this.length) {
           ch = '<end>'
         }
-        throw new LexerError(this, 'Unexpected ' + ch + ' after the exponent sign')
+        throw this.error(ErrorCode.InvalidExponent, { found: ch }, this.index)
       }
     }
 
     if (number === '.') {
-      throw new LexerError(this, 'Expecting decimal digits after the dot sign')
+      throw this.error(ErrorCode.MissingDigits, {}, this.index)
     }
 
     return this.createToken(LexerTokens.number, number)
@@ -291,210 +924,773 @@ export class Lexer {
   }
 }
 
-export class ParserError extends Error {
-  position:number
-  message:string
-  constructor(parser:Parser, message:string) {
-    super()
-    this.position = Math.max(parser.lexer.marker - 1, 0)
-    this.message = `${message} at character ${this.position}`
+export class ParserError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
   }
 }
 
 export class Parser {
 
   public lexer = new Lexer()
-  public warnings:string[] = []
+  public warnings: TDiagnostic[] = []
+  // Errors and warnings of the last parse, errors are only collected by parseTolerant()
+  public diagnostics: TDiagnostic[] = []
+
+  // Functions defined by the expression being parsed, name => parameter names
+  private declared: { [name: string]: string[] } = {}
+  // Parameter names while parsing the body of a function definition
+  private params: string[] | undefined
+  // Offset just past the last token taken from the lexer
+  private lastEnd = 0
+  // Whether errors are collected rather than thrown
+  private tolerant = false
+  // How deep nodes may nest in the tree, and brackets or operators in the source, which keeps
+  // the call stack of the parser, and of everything walking the tree, from overflowing
+  public maxDepth = 256
+  private nesting = 0
+  // Names which can't be assigned, eg. the identifiers of an Evaluator
+  public constants: { [name: string]: unknown } = {}
 
   constructor(
-    readonly validFuncs:{ [name: string]: { (...args: any[]): number } },
-    readonly validIdentifiers?: { [name: string]: any }) {
+    readonly validFuncs:{ [name: string]: TBuiltInFunction },
+    readonly validIdentifiers?: { [name: string]: any },
+    readonly validDefinitions: { [name: string]: TFunctionDefinition } = {},
+    readonly units: { [name: string]: TUnitDefinition } = builtIns.units) {
   }
 
-  public parse(expression: string): Required<Pick<TNode, 'Expression'>>|{Expression:undefined} {
-    if (expression.trim() === "")
-      return { Expression:undefined }
+  public parse(expression: string): TProgram {
     this.lexer.reset(expression)
     this.warnings = []
-    let expr = this.parseExpression()
-    let token = this.lexer.next()
+    this.diagnostics = []
+    this.declared = {}
+    this.params = undefined
+    this.lastEnd = 0
+    this.nesting = 0
+    let program: TProgram = {
+      type: 'Program',
+      body: this.parseStatementList(),
+      range: { start: 0, end: expression.length }
+    }
+    this.checkDepth(program)
+    return program
+  }
 
-    if (token !== undefined) {
-      throw new ParserError(this, `Unexpected token "${token.value}"`)
+  /**
+   * Parses the whole expression even when it has errors. The parts which could not be
+   * parsed become Error nodes, and every error and warning is listed in the diagnostics.
+   */
+  public parseTolerant(expression: string): { program: TProgram, diagnostics: TDiagnostic[] } {
+    this.tolerant = true
+    try {
+      let program = this.parse(expression)
+      // Skipped characters are only reported once taken, which can be after a later problem
+      this.diagnostics.sort((a, b) => a.range.start - b.range.start)
+      return { program, diagnostics: this.diagnostics }
+    } finally {
+      this.tolerant = false
     }
+  }
 
-    return {
-      Expression: expr
+  // StatementList ::= Expression | Expression ';' StatementList
+  // Empty statements (eg. a trailing ';') are skipped.
+  private parseStatementList(): TExpression[] {
+    let statements = [] as TExpression[]
+
+    while (true) {
+      let peekToken = this.peek()
+      if (peekToken !== undefined && !this.isOpToken(peekToken, ';')) {
+        statements.push(this.parseExpression())
+      }
+      let token = this.next()
+      if (token === undefined) {
+        break
+      }
+      if (!this.isOpToken(token, ';')) {
+        this.fail(ErrorCode.UnexpectedToken, this.rangeFrom(token.start!), { found: token.value }, { found: token.value, expected: [';'] })
+        // Skip the rest of the statement
+        while (token !== undefined && !this.isOpToken(token, ';')) {
+          token = this.next()
+        }
+        if (token === undefined) {
+          break
+        }
+      }
     }
+
+    return statements
   }
 
   // ArgumentList := Expression | Expression ',' ArgumentList
-  private parseArgumentList(): TNode[] {
-    let args = []
+  // The elements of an array literal are listed the same way, up to a closing ']'.
+  private parseArgumentList(closing = ')', empty = ErrorCode.EmptyArgument): TExpression[] {
+    let args = [] as TExpression[]
 
     while (true) {
-      let expr = this.parseExpression()
-      if (typeof expr === 'undefined') {
-        // TODO maybe throw exception?
-        break
+      let peekToken = this.peek()
+      if (peekToken === undefined || this.isOpToken(peekToken, ',') || this.isOpToken(peekToken, closing)) {
+        let start = this.nextStart()
+        args.push(this.fail(empty, { start, end: start }, {}, { found: this.describe(peekToken) }))
+      } else {
+        args.push(this.parseExpression())
       }
-      args.push(expr)
-      let peekToken = this.lexer.peek()
+      peekToken = this.peek()
       if (!this.isOpToken(peekToken, ',')) {
         break
       }
-      this.lexer.next()
+      this.next()
     }
 
     return args
   }
 
   // FunctionCall ::= Identifier '(' ')' || Identifier '(' ArgumentList ')'
-  private parseFunctionCall(name:string): TNode {
-    let args = [] as TNode[]
-    let token = this.lexer.next()
+  private parseFunctionCall(callee: TIdentifier): TCallExpression {
+    let name = callee.name
+    let args = [] as TExpression[]
+    let token = this.next()
 
     if (!this.isOpToken(token, '(')) {
-      throw new ParserError(this, 'Expecting "(" in a function call "' + name + '"')
+      this.fail(ErrorCode.MissingToken, callee.range, { expected: '(' }, { expected: ['('], found: this.describe(token) })
     }
 
-    let peekToken = this.lexer.peek()
+    let peekToken = this.peek()
     if (!this.isOpToken(peekToken, ')')) {
       args = this.parseArgumentList()
     }
 
-    token = this.lexer.next()
-    if (!this.isOpToken(token, ')')) {
-      throw new ParserError(this, `Missing ")" in function "${name}"`)
+    this.expect(')')
+    let range = this.rangeFrom(callee.range.start)
+
+    let arity = this.getArity(name)
+    if (arity === undefined) {
+      this.warn(ErrorCode.UnknownFunction, callee.range, { name }, { suggestions: suggest(name, this.knownFunctions()) })
+    }
+    else if (arity.min === arity.max && args.length !== arity.min) {
+      this.warn(ErrorCode.ArityMismatch, range, { name, expected: arity.min, found: args.length })
+    }
+    else if (args.length < arity.min) {
+      this.warn(ErrorCode.TooFewArguments, range, { name, min: arity.min, found: args.length })
+    }
+    else if (args.length > arity.max) {
+      this.warn(ErrorCode.TooManyArguments, range, { name, max: arity.max, found: args.length })
     }
 
-    if (!this.validFuncs[name]) {
-      this.warnings.push(`Unknown function "${name}()"`)
+    return {
+      type: 'CallExpression',
+      callee,
+      arguments: args,
+      range
     }
-    else if (args.length !== this.validFuncs[name].length) {
-      this.warnings.push(`Function ${name}() expects ${this.validFuncs[name].length} arg(s), found ${args.length}`)
+  }
+
+  // Unit ::= UnitFactor | Unit '*' UnitFactor | Unit '/' UnitFactor
+  // A '*' or '/' only continues the unit when a unit name follows, so 3 m / 2 s is a division.
+  private parseUnit(): TUnitTerm[] {
+    let unit = [this.parseUnitFactor(1)]
+    let peekToken = this.peek()
+    while ((this.isOpToken(peekToken, '*') || this.isOpToken(peekToken, '/')) && this.isUnitAhead(1)) {
+      let token = this.next() as TToken
+      unit.push(this.parseUnitFactor(token.value === '/' ? -1 : 1))
+      peekToken = this.peek()
     }
+    return unit
+  }
 
+  // UnitFactor ::= UnitName | UnitName '^' Number | UnitName '^' '-' Number
+  private parseUnitFactor(sign: number): TUnitTerm {
+    let name = (this.next() as TToken).value
+    let exponent = 1
+    if (this.isOpToken(this.peek(), '^')) {
+      let negative = this.isOpToken(this.peek(1), '-')
+      let number = this.peek(negative ? 2 : 1)
+      // Otherwise the '^' raises the whole quantity, eg. 2 m ^ x
+      if (number !== undefined && number.type === LexerTokens.number) {
+        this.next()
+        if (negative) {
+          this.next()
+        }
+        this.next()
+        exponent = (negative ? -1 : 1) * parseFloat(number.value)
+      }
+    }
+    return { name, exponent: sign * exponent }
+  }
+
+  // Array ::= '[' ']' | '[' ArgumentList ']'
+  private parseArray(): TArrayExpression {
+    let start = (this.next() as TToken).start!
+    let elements = [] as TExpression[]
+    if (!this.isOpToken(this.peek(), ']')) {
+      elements = this.parseArgumentList(']', ErrorCode.EmptyElement)
+    }
+    this.expect(']')
     return {
-      FunctionCall: {name, args}
+      type: 'ArrayExpression',
+      elements,
+      range: this.rangeFrom(start)
     }
   }
 
-  // Primary ::= Identifier | Number | '(' Assignment ')' | FunctionCall
-  private parsePrimary(): TNode {
-    let peekToken = this.lexer.peek()
+  // Primary ::= Identifier | Number | Number Unit | Number 'i' | Array | '(' Assignment ')' | FunctionCall
+  private parsePrimary(): TExpression {
+    let peekToken = this.peek()
 
     if (peekToken === undefined) {
-      throw new ParserError(this, 'Unexpected end of expression')
+      let end = this.lexer.length
+      return this.fail(ErrorCode.UnexpectedEnd, { start: end, end }, {}, { found: '<end>' })
     }
 
     if (peekToken.type === LexerTokens.identifier) {
-      let token = this.lexer.next() as TToken
-      if (this.isOpToken(this.lexer.peek(), '(')) {
-        return this.parseFunctionCall(token.value)
+      let token = this.next() as TToken
+      let identifier: TIdentifier = {
+        type: 'Identifier',
+        name: token.value,
+        range: this.rangeFrom(token.start!)
+      }
+      if (this.isOpToken(this.peek(), '(')) {
+        return this.parseFunctionCall(identifier)
       } else {
-        if (this.validIdentifiers && !this.validIdentifiers[token.value]) {
-          this.warnings.push(`Unknown identifier "${token.value}"`)
+        let isParam = this.params !== undefined && this.params.indexOf(token.value) >= 0
+        if (this.validIdentifiers && !this.validIdentifiers[token.value] && !isParam) {
+          let known = Object.keys(this.validIdentifiers).concat(this.params || [])
+          this.warn(ErrorCode.UnknownIdentifier, identifier.range, { name: token.value }, { suggestions: suggest(token.value, known) })
         }
-        return {Identifier: token.value}
+        return identifier
       }
     }
 
     if (peekToken.type === LexerTokens.number) {
-      let token = this.lexer.next() as TToken
-      return {Number: token.value}
+      let token = this.next() as TToken
+      // Like a unit, i may follow the number with or without a space, in complex mode only, where
+      // i is a known identifier
+      let suffix = this.peek()
+      if (suffix !== undefined && suffix.type === LexerTokens.identifier && suffix.value === 'i' &&
+          this.validIdentifiers !== undefined && this.validIdentifiers.hasOwnProperty('i') &&
+          !this.isOpToken(this.peek(1), '(')) {
+        this.next()
+        return {
+          type: 'ImaginaryLiteral',
+          value: parseFloat(token.value),
+          raw: token.value,
+          range: this.rangeFrom(token.start!)
+        }
+      }
+      if (this.isUnitAhead()) {
+        return {
+          type: 'QuantityLiteral',
+          value: parseFloat(token.value),
+          raw: token.value,
+          unit: this.parseUnit(),
+          range: this.rangeFrom(token.start!)
+        }
+      }
+      return {
+        type: 'NumberLiteral',
+        value: parseFloat(token.value),
+        raw: token.value,
+        range: this.rangeFrom(token.start!)
+      }
+    }
+
+    if (this.isOpToken(peekToken, '[')) {
+      return this.parseArray()
     }
 
+    // The parentheses only group, so the node keeps the range of its content
     if (this.isOpToken(peekToken, '(')) {
-      this.lexer.next()
+      this.next()
       let expr = this.parseAssignment()
-      let token = this.lexer.next() as TToken
-      if (!this.isOpToken(token, ')')) {
-        throw new ParserError(this, 'Expecting ")"')
-      }
-      return {Expression: expr}
+      this.expect(')')
+      return expr
+    }
+
+    // Tokens which close an enclosing construct are left for it to deal with
+    let range = { start: peekToken.start!, end: peekToken.end! + 1 }
+    if (!this.isOpToken(peekToken, ')') && !this.isOpToken(peekToken, ']') && !this.isOpToken(peekToken, ',') &&
+        !this.isOpToken(peekToken, ';') && !this.isOpToken(peekToken, ':')) {
+      this.next()
     }
+    return this.fail(ErrorCode.UnexpectedToken, range, { found: peekToken.value }, { found: peekToken.value })
+  }
 
-    throw new ParserError(this, `Unknown token "${peekToken.value}"`)
+  // Postfix ::= Primary | Postfix '[' Expression ']'
+  private parsePostfix(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parsePrimary()
+    while (this.isOpToken(this.peek(), '[')) {
+      this.next()
+      let index = this.parseExpression()
+      this.expect(']')
+      expr = {
+        type: 'IndexExpression',
+        object: expr,
+        index,
+        range: this.rangeFrom(start)
+      }
+    }
+    return expr
   }
 
-  // Unary ::= Primary | '-' Unary
-  private parseUnary(): TNode {
-    let peekToken = this.lexer.peek()
-    if (this.isOpToken(peekToken, '-') || this.isOpToken(peekToken, '+')) {
-      let token = this.lexer.next() as TToken
-      let expr = this.parseUnary()
+  // Unary ::= Postfix | '-' Unary | '+' Unary | '!' Unary
+  private parseUnary(): TExpression {
+    let peekToken = this.peek()
+    if (this.isOpToken(peekToken, '-') || this.isOpToken(peekToken, '+') || this.isOpToken(peekToken, '!')) {
+      let token = this.next() as TToken
+      let expr = this.nested(() => this.parseUnary())
       return {
-        Unary: {
-          operator: token.value,
-          expr: expr
-        }
+        type: 'UnaryExpression',
+        operator: token.value,
+        argument: expr,
+        range: this.rangeFrom(token.start!)
       }
     }
 
-    return this.parsePrimary()
+    return this.parsePostfix()
   }
 
-  // Multiplicative ::= Unary | Multiplicative '*' Unary | Multiplicative '/' Unary
-  private parseMultiplicative(): TNode {
+  // Power ::= Unary | Unary '^' Power
+  private parsePower(): TExpression {
+    let start = this.nextStart()
     let expr = this.parseUnary()
-    let peekToken = this.lexer.peek()
-    while (this.isOpToken(peekToken, '*') || this.isOpToken(peekToken, '/')) {
-      let token = this.lexer.next() as TToken
+    if (this.isOpToken(this.peek(), '^')) {
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
+      return {
+        type: 'BinaryExpression',
+        operator: token.value,
+        left: expr,
+        right: this.nested(() => this.parsePower()),
+        range: this.rangeFrom(start),
+        operatorRange
+      }
+    }
+    return expr
+  }
+
+  // Multiplicative ::= Power | Multiplicative '*' Power | Multiplicative '/' Power | Multiplicative '%' Power
+  private parseMultiplicative(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parsePower()
+    let peekToken = this.peek()
+    while (this.isOpToken(peekToken, '*') || this.isOpToken(peekToken, '/') || this.isOpToken(peekToken, '%')) {
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
       expr = {
-        'Binary': {
-          operator: token.value,
-          left: expr,
-          right: this.parseUnary()
-        }
+        type: 'BinaryExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parsePower(),
+        range: this.rangeFrom(start),
+        operatorRange
       }
-      peekToken = this.lexer.peek()
+      peekToken = this.peek()
     }
     return expr
   }
 
   // Additive ::= Multiplicative | Additive '+' Multiplicative | Additive '-' Multiplicative
-  private parseAdditive(): TNode {
+  private parseAdditive(): TExpression {
+    let start = this.nextStart()
     let expr = this.parseMultiplicative()
-    let peekToken = this.lexer.peek()
+    let peekToken = this.peek()
     while (this.isOpToken(peekToken, '+') || this.isOpToken(peekToken, '-')) {
-      let token = this.lexer.next() as TToken
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
       expr = {
-        'Binary': {
-          operator: token.value,
-          left: expr,
-          right: this.parseMultiplicative()
-        }
+        type: 'BinaryExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parseMultiplicative(),
+        range: this.rangeFrom(start),
+        operatorRange
       }
-      peekToken = this.lexer.peek()
+      peekToken = this.peek()
     }
     return expr
   }
 
-  // Assignment ::= Identifier '=' Assignment | Additive
-  private parseAssignment(): TNode {
+  // Relational ::= Additive | Relational ('<' | '<=' | '>' | '>=') Additive
+  private parseRelational(): TExpression {
+    let start = this.nextStart()
     let expr = this.parseAdditive()
-    if (expr !== undefined && expr.Identifier) {
-      let peekToken = this.lexer.peek()
-      if (this.isOpToken(peekToken, '=')) {
-        this.lexer.next()
-        return {
-          Assignment: {
-            name: { Identifier: expr.Identifier },
-            value: this.parseAssignment()
+    let peekToken = this.peek()
+    while (this.isOpToken(peekToken, '<') || this.isOpToken(peekToken, '<=') ||
+           this.isOpToken(peekToken, '>') || this.isOpToken(peekToken, '>=')) {
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
+      expr = {
+        type: 'BinaryExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parseAdditive(),
+        range: this.rangeFrom(start),
+        operatorRange
+      }
+      peekToken = this.peek()
+    }
+    return expr
+  }
+
+  // Equality ::= Relational | Equality ('==' | '!=') Relational
+  private parseEquality(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parseRelational()
+    let peekToken = this.peek()
+    while (this.isOpToken(peekToken, '==') || this.isOpToken(peekToken, '!=')) {
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
+      expr = {
+        type: 'BinaryExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parseRelational(),
+        range: this.rangeFrom(start),
+        operatorRange
+      }
+      peekToken = this.peek()
+    }
+    return expr
+  }
+
+  // LogicalAnd ::= Equality | LogicalAnd '&&' Equality
+  private parseLogicalAnd(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parseEquality()
+    while (this.isOpToken(this.peek(), '&&')) {
+      let token = this.next() as TToken
+      expr = {
+        type: 'LogicalExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parseEquality(),
+        range: this.rangeFrom(start)
+      }
+    }
+    return expr
+  }
+
+  // LogicalOr ::= LogicalAnd | LogicalOr '||' LogicalAnd
+  private parseLogicalOr(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parseLogicalAnd()
+    while (this.isOpToken(this.peek(), '||')) {
+      let token = this.next() as TToken
+      expr = {
+        type: 'LogicalExpression',
+        operator: token.value,
+        left: expr,
+        right: this.parseLogicalAnd(),
+        range: this.rangeFrom(start)
+      }
+    }
+    return expr
+  }
+
+  // Conversion ::= LogicalOr | Conversion 'to' Unit | Conversion 'in' Unit
+  private parseConversion(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parseLogicalOr()
+    let peekToken = this.peek()
+    while (peekToken !== undefined && peekToken.type === LexerTokens.identifier &&
+           (peekToken.value === 'to' || peekToken.value === 'in')) {
+      let token = this.next() as TToken
+      let operatorRange = this.rangeFrom(token.start!)
+      if (!this.isUnitAhead()) {
+        return this.unitExpected()
+      }
+      expr = {
+        type: 'ConversionExpression',
+        operator: token.value,
+        value: expr,
+        unit: this.parseUnit(),
+        range: this.rangeFrom(start),
+        operatorRange
+      }
+      peekToken = this.peek()
+    }
+    return expr
+  }
+
+  // Conditional ::= Conversion | Conversion '?' Assignment ':' Assignment
+  private parseConditional(): TExpression {
+    let start = this.nextStart()
+    let expr = this.parseConversion()
+    if (!this.isOpToken(this.peek(), '?')) {
+      return expr
+    }
+    this.next()
+    let consequent = this.parseAssignment()
+    // Without the ':' the Error node takes the place of the alternate
+    let missing = this.expect(':')
+    let alternate = missing === undefined ? this.parseAssignment() : missing
+    return {
+      type: 'ConditionalExpression',
+      test: expr,
+      consequent,
+      alternate,
+      range: this.rangeFrom(start)
+    }
+  }
+
+  // Assignment ::= Identifier '=' Assignment | FunctionDefinition | Conditional
+  // Everything in brackets and every branch is parsed from here, so this is where nesting is counted.
+  private parseAssignment(): TExpression {
+    return this.nested(() => {
+      let start = this.nextStart()
+      let warningCount = this.warnings.length
+      let diagnosticCount = this.diagnostics.length
+      let expr = this.parseConditional()
+      if (expr.type === 'CallExpression' && this.isOpToken(this.peek(), '=')) {
+        // The head was parsed as a call, so drop the warnings it raised about itself
+        this.warnings.length = warningCount
+        this.diagnostics = this.diagnostics.slice(0, diagnosticCount).concat(
+          this.diagnostics.slice(diagnosticCount).filter(diagnostic => diagnostic.severity === 'error'))
+        return this.parseFunctionDefinition(expr)
+      }
+      if (expr.type === 'Identifier') {
+        let peekToken = this.peek()
+        if (this.isOpToken(peekToken, '=')) {
+          if (this.constants.hasOwnProperty(expr.name)) {
+            this.fail(ErrorCode.ConstantAssignment, expr.range, { name: expr.name })
+          }
+          this.next()
+          let value = this.parseAssignment()
+          return {
+            type: 'AssignmentExpression',
+            name: expr,
+            value,
+            range: this.rangeFrom(start)
           }
         }
+        return expr
       }
       return expr
+    })
+  }
+
+  // FunctionDefinition ::= Identifier '(' ParameterList ')' '=' Assignment
+  private parseFunctionDefinition(head: TCallExpression): TFunctionDefinition {
+    let name = head.callee.name
+    if (this.params !== undefined) {
+      this.fail(ErrorCode.NestedDefinition, head.range, { name })
+    }
+    if (this.validFuncs[name]) {
+      this.fail(ErrorCode.BuiltInRedefinition, head.callee.range, { name })
+    }
+
+    let params = [] as TIdentifier[]
+    for (let arg of head.arguments) {
+      if (arg.type !== 'Identifier') {
+        this.fail(ErrorCode.InvalidParameter, arg.range, { name })
+        continue
+      }
+      let param = arg
+      if (params.some(other => other.name === param.name)) {
+        this.fail(ErrorCode.DuplicateParameter, param.range, { name, param: param.name })
+        continue
+      }
+      params.push(param)
+    }
+
+    this.next()
+    // Declared before the body is parsed, so the function can call itself
+    this.declared[name] = params.map(param => param.name)
+    let outerParams = this.params
+    this.params = this.declared[name]
+    try {
+      let body = this.parseAssignment()
+      return {
+        type: 'FunctionDefinition',
+        name: head.callee,
+        params,
+        body,
+        range: this.rangeFrom(head.range.start)
+      }
+    } finally {
+      this.params = outerParams
     }
-    return expr
   }
 
   // Expression ::= Assignment
-  private parseExpression(): TNode {
+  private parseExpression(): TExpression {
     return this.parseAssignment()
   }
 
+  /**
+   * Takes the next token from the lexer, keeping track of where it ends. In tolerant
+   * mode characters the lexer can't make sense of are reported and skipped.
+   */
+  private next(): TToken | undefined {
+    let token
+    while (true) {
+      try {
+        token = this.lexer.next()
+        break
+      } catch (e) {
+        if (!this.tolerant || !(e instanceof LexerError)) {
+          throw e
+        }
+        this.diagnostics.push(e.diagnostic)
+        this.lexer.index = Math.max(this.lexer.index, e.range.end)
+      }
+    }
+    if (token !== undefined) {
+      this.lastEnd = token.end! + 1
+    }
+    return token
+  }
+
+  /**
+   * Returns the next token without taking it, or the one [ahead] tokens after it
+   */
+  private peek(ahead = 0): TToken | undefined {
+    let index = this.lexer.index
+    let lastEnd = this.lastEnd
+    let diagnosticCount = this.diagnostics.length
+    let token = this.next()
+    for (let i = 0; i < ahead && token !== undefined; i += 1) {
+      token = this.next()
+    }
+    // The skipped characters are reported once they are actually taken
+    this.diagnostics.length = diagnosticCount
+    this.lexer.index = index
+    this.lastEnd = lastEnd
+    return token
+  }
+
+  /**
+   * Takes the given operator as the next token. If it is missing, returns the Error node standing in for it.
+   */
+  private expect(value: string): TError | undefined {
+    let token = this.peek()
+    if (this.isOpToken(token, value)) {
+      this.next()
+      return undefined
+    }
+    let start = this.nextStart()
+    return this.fail(ErrorCode.MissingToken, { start, end: start }, { expected: value },
+      { expected: [value], found: this.describe(token) })
+  }
+
+  // Parses one level deeper, failing beyond maxDepth even in tolerant mode
+  private nested<T>(parse: () => T): T {
+    if (this.nesting >= this.maxDepth) {
+      let start = this.nextStart()
+      throw this.depthExceeded({ start, end: start })
+    }
+    this.nesting += 1
+    try {
+      return parse()
+    } finally {
+      this.nesting -= 1
+    }
+  }
+
+  // Chains of operators, eg. 1 + 2 + ... + 99, nest in the tree but not in the parser, so the depth of
+  // the tree is checked once it is built, with a stack of its own rather than by recursion
+  private checkDepth(program: TProgram): void {
+    let stack: { node: TNode, depth: number }[] = [{ node: program, depth: 0 }]
+    while (stack.length) {
+      let { node, depth } = stack.pop()!
+      if (depth > this.maxDepth) {
+        throw this.depthExceeded(node.range)
+      }
+      for (let child of children(node)) {
+        stack.push({ node: child, depth: depth + 1 })
+      }
+    }
+  }
+
+  private depthExceeded(range: TRange): DepthLimitError {
+    return new DepthLimitError(createDiagnostic(ErrorCode.DepthExceeded, 'error', range, { limit: this.maxDepth }))
+  }
+
+  /**
+   * Throws a ParserError, or in tolerant mode records the error and returns a node in place of the bad input
+   */
+  private fail(code: ErrorCode, range: TRange, params: TMessageParams = {},
+               details: Pick<TDiagnostic, 'expected' | 'found' | 'suggestions'> = {}): TError {
+    let diagnostic = createDiagnostic(code, 'error', range, params, details)
+    if (!this.tolerant) {
+      throw new ParserError(diagnostic)
+    }
+    this.diagnostics.push(diagnostic)
+    return { type: 'Error', code, message: diagnostic.message, range, params, details }
+  }
+
+  private warn(code: ErrorCode, range: TRange, params: TMessageParams,
+               details: Pick<TDiagnostic, 'suggestions'> = {}): void {
+    let diagnostic = createDiagnostic(code, 'warning', range, params, details)
+    this.warnings.push(diagnostic)
+    this.diagnostics.push(diagnostic)
+  }
+
+  /**
+   * Returns true if the token [ahead] of the next one names a unit, rather than a function
+   */
+  private isUnitAhead(ahead = 0): boolean {
+    let token = this.peek(ahead)
+    return token !== undefined && token.type === LexerTokens.identifier &&
+      findUnit(token.value, this.units) !== undefined && !this.isOpToken(this.peek(ahead + 1), '(')
+  }
+
+  // Fails on what follows a conversion operator in place of a unit
+  private unitExpected(): TError {
+    let token = this.peek()
+    if (token === undefined) {
+      let end = this.lexer.length
+      return this.fail(ErrorCode.UnexpectedEnd, { start: end, end }, {}, { found: '<end>' })
+    }
+    if (token.type !== LexerTokens.identifier) {
+      return this.fail(ErrorCode.UnexpectedToken, { start: token.start!, end: token.end! + 1 },
+        { found: token.value }, { found: token.value })
+    }
+    this.next()
+    return this.fail(ErrorCode.UnknownUnit, this.rangeFrom(token.start!), { name: token.value },
+      { found: token.value, suggestions: suggest(token.value, Object.keys(this.units)) })
+  }
+
+  // How a token is shown as "found" in diagnostics
+  private describe(token: TToken | undefined): string {
+    return token !== undefined ? String(token.value) : '<end>'
+  }
+
+  // Names of all the functions a call may refer to
+  private knownFunctions(): string[] {
+    return Object.keys(this.validFuncs)
+      .concat(Object.keys(this.declared))
+      .concat(Object.keys(this.validDefinitions))
+  }
+
+  /**
+   * Returns the offset where the next token starts
+   */
+  private nextStart(): number {
+    let token = this.peek()
+    return token !== undefined ? token.start! : this.lexer.length
+  }
+
+  /**
+   * Returns the range from the given offset up to the end of the last token taken
+   */
+  private rangeFrom(start: number): TRange {
+    return { start, end: this.lastEnd }
+  }
+
+  /**
+   * Returns the numbers of arguments the named function takes, from the signature of a built-in function,
+   * or undefined if unknown
+   */
+  private getArity(name: string): TArity | undefined {
+    if (this.validFuncs[name]) {
+      return arityOf(signatureOf(this.validFuncs[name]))
+    }
+    let params = this.declared.hasOwnProperty(name) ? this.declared[name].length
+      : this.validDefinitions.hasOwnProperty(name) ? this.validDefinitions[name].params.length : undefined
+    return params !== undefined ? { min: params, max: params } : undefined
+  }
+
   /**
    * Returns true if argument is an operator token with the given value
    */
@@ -505,102 +1701,647 @@ export class Parser {
   }
 }
 
-export class EvaluatorError extends Error {
-  position: number
-  message: string
-  constructor(evaluator: Evaluator, message: string) {
-    super()
-    this.position = Math.max(evaluator.parser.lexer.marker - 1, 0)
-    this.message = `${message} at position ${this.position}`
+export class EvaluatorError extends DiagnosticError {
+  constructor(diagnostic: TDiagnostic) {
+    super(diagnostic)
   }
 }
 
+/**
+ * Evaluates expressions. Names are looked up in layers: the parameters of the current call, the
+ * variables given to the evaluation, the session and, last, the identifiers, which are constants.
+ * Assignments write into the variables, or the session when there are none; the identifiers
+ * are never written, and assigning to one of them is an error.
+ */
 export class Evaluator {
 
   parser:Parser
+  // Functions defined by evaluated expressions, eg. f(x) = x^2
+  readonly definitions: { [name: string]: TFunctionDefinition } = {}
+  // Variables assigned by evaluations without variables of their own, kept from one evaluation to the
+  // next. Replace it to start over, or to keep the variables of several users apart.
+  public session: TScope = {}
+  // How deep calls to user-defined functions may nest, eg. through recursion
+  public maxCallDepth = 256
+  // How many nodes one evaluation may evaluate, and for how many milliseconds it may run. Time is
+  // only checked between steps, so a slow built-in function can't be interrupted.
+  public maxSteps = Infinity
+  public timeLimit = Infinity
+  private callDepth = 0
+  private steps = 0
+  private deadline = Infinity
+  private compiledBodies = new WeakMap<TFunctionDefinition, TCompiled>()
 
   constructor(
-    readonly functions: { [name: string]: { (...args: any[]): number } },
-    readonly identifiers: { [name: string]: number })
+    readonly functions: { [name: string]: TBuiltInFunction },
+    readonly identifiers: { [name: string]: TValue },
+    readonly units: { [name: string]: TUnitDefinition } = builtIns.units,
+    readonly backend: NumericBackend<TValue> = floatBackend)
   {
-    this.parser = new Parser(functions, identifiers)
+    this.parser = new Parser(functions, identifiers, this.definitions, units)
+    this.parser.constants = identifiers
+  }
+
+  /**
+   * Evaluates every statement and returns the value of the last one
+   */
+  public evaluate(expr: string | TNode, variables: TScope = this.session): TValue|null {
+    let results = this.evaluateAll(expr, variables)
+    return results.length ? results[results.length - 1] : null
+  }
+
+  /**
+   * Evaluates every statement and returns each statement's value, in order, null for a function definition
+   */
+  public evaluateAll(expr: string | TNode, variables: TScope = this.session): (TValue | null)[] {
+    let statements = this.statements(expr)
+    this.start()
+    return statements.map(statement => {
+      let value = this.exec(statement, variables)
+      return statement.type === 'FunctionDefinition' ? null : value
+    })
+  }
+
+  /**
+   * Parses the expression once and returns a function that evaluates it, for expressions
+   * evaluated many times over. The variables are used like those given to evaluate(), so
+   * without them the result is the same as from evaluate(), errors included.
+   */
+  public compile(expr: string | TNode): (variables?: TScope) => TValue | null {
+    let statements = this.statements(expr)
+    let compiled = statements.map(statement => this.compileNode(statement))
+    return (variables = this.session) => {
+      // Like evaluate(), null without any statement or after a function definition
+      let result: TValue | null = null
+      this.start()
+      compiled.forEach((statement, i) => {
+        let value = statement(variables)
+        result = statements[i].type === 'FunctionDefinition' ? null : value
+      })
+      return result
+    }
+  }
+
+  // Parses the expression unless it is a tree already
+  private statements(expr: string | TNode): TExpression[] {
+    let tree = typeof expr === 'string' ? this.parser.parse(expr) : expr
+    return tree.type === 'Program' ? tree.body : [tree]
+  }
+
+  // Runs a user-defined function with its parameters bound in a scope of its own
+  private call(node: TCallExpression, definition: TFunctionDefinition, args: TValue[],
+               body: (scope: TScope) => TValue): TValue {
+    let name = definition.name.name
+    if (args.length !== definition.params.length) {
+      throw this.error(ErrorCode.ArityMismatch, node, { name, expected: definition.params.length, found: args.length })
+    }
+    if (this.callDepth >= this.maxCallDepth) {
+      throw this.error(ErrorCode.CallDepthExceeded, node, { name, limit: this.maxCallDepth })
+    }
+    let scope: TScope = {}
+    definition.params.forEach((param, i) => scope[param.name] = args[i])
+    this.callDepth += 1
+    try {
+      return body(scope)
+    } finally {
+      this.callDepth -= 1
+    }
+  }
+
+  // Starts the step and time budget of an evaluation
+  private start(): void {
+    this.steps = 0
+    this.deadline = this.timeLimit === Infinity ? Infinity : Date.now() + this.timeLimit
+  }
+
+  // Counts a node against the step budget, and every 1024 steps checks the clock
+  private step(node: TExpression): void {
+    this.steps += 1
+    if (this.steps > this.maxSteps) {
+      throw new StepLimitError(createDiagnostic(ErrorCode.StepsExceeded, 'error', node.range, { limit: this.maxSteps }))
+    }
+    if ((this.steps & 1023) === 0 && Date.now() > this.deadline) {
+      throw new TimeLimitError(createDiagnostic(ErrorCode.TimeExceeded, 'error', node.range, { limit: this.timeLimit }))
+    }
+  }
+
+  private exec(node: TExpression, variables: TScope, scope?: TScope): TValue {
+    this.step(node)
+    switch (node.type) {
+
+      case 'Error':
+        throw new EvaluatorError(createDiagnostic(node.code, 'error', node.range, node.params, node.details))
+
+      case 'NumberLiteral':
+        return this.backend === floatBackend ? node.value : this.backend.parse(node.raw)
+
+      case 'QuantityLiteral':
+        return this.quantity(node)
+
+      case 'ImaginaryLiteral':
+        return new Complex(0, node.value)
+
+      case 'ConditionalExpression':
+        return isTrue(this.exec(node.test, variables, scope)) ?
+          this.exec(node.consequent, variables, scope) : this.exec(node.alternate, variables, scope)
+
+      // Logical operators short-circuit, so the right side is evaluated only when needed
+      case 'LogicalExpression': {
+        let left = isTrue(this.exec(node.left, variables, scope))
+        if (node.operator === '&&') {
+          return (left && isTrue(this.exec(node.right, variables, scope))) ? 1 : 0
+        }
+        if (node.operator === '||') {
+          return (left || isTrue(this.exec(node.right, variables, scope))) ? 1 : 0
+        }
+        throw this.error(ErrorCode.UnknownOperator, node, { operator: node.operator })
+      }
+
+      case 'BinaryExpression': {
+        let left = this.exec(node.left, variables, scope)
+        let right = this.exec(node.right, variables, scope)
+        if (binaryOperators.hasOwnProperty(node.operator)) {
+          return this.binary(node, left, right)
+        }
+        throw this.error(ErrorCode.UnknownOperator, node, { operator: node.operator })
+      }
+
+      case 'UnaryExpression': {
+        let expr = this.exec(node.argument, variables, scope)
+        if (unaryOperators.hasOwnProperty(node.operator)) {
+          return typeof expr === 'number' ? unaryOperators[node.operator](expr) : this.unary(node.operator, expr)
+        }
+        throw this.error(ErrorCode.UnknownOperator, node, { operator: node.operator })
+      }
+
+      case 'ConversionExpression':
+        return this.convert(node, this.exec(node.value, variables, scope))
+
+      case 'ArrayExpression':
+        return this.matrix(node, node.elements.map(element => this.exec(element, variables, scope)))
+
+      case 'IndexExpression':
+        return this.index(node, this.exec(node.object, variables, scope), this.exec(node.index, variables, scope))
+
+      case 'Identifier':
+        return this.lookup(node, variables, scope)
+
+      case 'AssignmentExpression':
+        return this.assign(node, this.exec(node.value, variables, scope), variables, scope)
+
+      case 'FunctionDefinition':
+        this.definitions[node.name.name] = node
+        // A definition has no value of its own, it counts as NaN inside an expression and as null for a statement
+        return NaN
+
+      case 'CallExpression': {
+        let name = node.callee.name
+        if (this.functions.hasOwnProperty(name)) {
+          let args = node.arguments.map(arg => this.exec(arg, variables, scope))
+          if (typeof this.functions[name] === 'function')
+            return this.callBuiltIn(node, this.functions[name], args)
+          throw this.error(ErrorCode.InvalidCallback, node, { name })
+        }
+        if (this.definitions.hasOwnProperty(name)) {
+          let definition = this.definitions[name]
+          let args = node.arguments.map(arg => this.exec(arg, variables, scope))
+          return this.call(node, definition, args, scope => this.exec(definition.body, variables, scope))
+        }
+        throw this.unknownFunction(node)
+      }
+    }
+
+    throw this.error(ErrorCode.UnknownSyntax, node as TExpression)
   }
 
-  public evaluate(expr: string): number|null {
-    let tree = this.parser.parse(expr)
-    if (tree.Expression === undefined) return null
-    return this.exec(tree.Expression)
+  // Every compiled node counts a step, like in exec()
+  private compileNode(node: TExpression): TCompiled {
+    let compiled = this.compileExpression(node)
+    return (variables, scope) => {
+      this.step(node)
+      return compiled(variables, scope)
+    }
   }
 
-  private exec(node: TNode): number {
-    let expr
+  // Mirrors exec(), but resolves the shape of the tree once, ahead of evaluation
+  private compileExpression(node: TExpression): TCompiled {
+    switch (node.type) {
+
+      case 'Error': {
+        let diagnostic = createDiagnostic(node.code, 'error', node.range, node.params, node.details)
+        return () => {
+          throw new EvaluatorError(diagnostic)
+        }
+      }
+
+      case 'NumberLiteral': {
+        let value = this.backend === floatBackend ? node.value : this.backend.parse(node.raw)
+        return () => value
+      }
+
+      case 'QuantityLiteral': {
+        let literal = node
+        return () => this.quantity(literal)
+      }
+
+      case 'ImaginaryLiteral': {
+        let value = new Complex(0, node.value)
+        return () => value
+      }
+
+      case 'ConditionalExpression': {
+        let test = this.compileNode(node.test)
+        let consequent = this.compileNode(node.consequent)
+        let alternate = this.compileNode(node.alternate)
+        return (variables, scope) =>
+          isTrue(test(variables, scope)) ? consequent(variables, scope) : alternate(variables, scope)
+      }
+
+      case 'LogicalExpression': {
+        let operator = node.operator
+        let left = this.compileNode(node.left)
+        let right = this.compileNode(node.right)
+        if (operator === '&&') {
+          return (variables, scope) => (isTrue(left(variables, scope)) && isTrue(right(variables, scope))) ? 1 : 0
+        }
+        if (operator === '||') {
+          return (variables, scope) => (isTrue(left(variables, scope)) || isTrue(right(variables, scope))) ? 1 : 0
+        }
+        return () => {
+          throw this.error(ErrorCode.UnknownOperator, node, { operator })
+        }
+      }
 
-    if (node.Expression !== undefined) {
-      return this.exec(node.Expression)
+      case 'BinaryExpression': {
+        let operator = node.operator
+        let left = this.compileNode(node.left)
+        let right = this.compileNode(node.right)
+        if (binaryOperators.hasOwnProperty(operator)) {
+          let apply = binaryOperators[operator]
+          let binary = node
+          return (variables, scope) => {
+            let a = left(variables, scope)
+            let b = right(variables, scope)
+            return typeof a === 'number' && typeof b === 'number' ? apply(a, b) : this.binary(binary, a, b)
+          }
+        }
+        return () => {
+          throw this.error(ErrorCode.UnknownOperator, node, { operator })
+        }
+      }
+
+      case 'UnaryExpression': {
+        let operator = node.operator
+        let expr = this.compileNode(node.argument)
+        if (unaryOperators.hasOwnProperty(operator)) {
+          let apply = unaryOperators[operator]
+          return (variables, scope) => {
+            let value = expr(variables, scope)
+            return typeof value === 'number' ? apply(value) : this.unary(operator, value)
+          }
+        }
+        return () => {
+          throw this.error(ErrorCode.UnknownOperator, node, { operator })
+        }
+      }
+
+      case 'ConversionExpression': {
+        let conversion = node
+        let value = this.compileNode(node.value)
+        return (variables, scope) => this.convert(conversion, value(variables, scope))
+      }
+
+      case 'ArrayExpression': {
+        let array = node
+        let elements = node.elements.map(element => this.compileNode(element))
+        return (variables, scope) => this.matrix(array, elements.map(element => element(variables, scope)))
+      }
+
+      case 'IndexExpression': {
+        let indexing = node
+        let object = this.compileNode(node.object)
+        let index = this.compileNode(node.index)
+        return (variables, scope) => this.index(indexing, object(variables, scope), index(variables, scope))
+      }
+
+      case 'Identifier': {
+        let identifier = node
+        return (variables, scope) => this.lookup(identifier, variables, scope)
+      }
+
+      case 'AssignmentExpression': {
+        let assignment = node
+        let value = this.compileNode(node.value)
+        return (variables, scope) => this.assign(assignment, value(variables, scope), variables, scope)
+      }
+
+      case 'FunctionDefinition': {
+        let definition = node
+        return () => {
+          this.definitions[definition.name.name] = definition
+          // As in exec()
+          return NaN
+        }
+      }
+
+      case 'CallExpression': {
+        let name = node.callee.name
+        let args = node.arguments.map(arg => this.compileNode(arg))
+        return (variables, scope) => {
+          if (this.functions.hasOwnProperty(name)) {
+            let values = args.map(arg => arg(variables, scope))
+            if (typeof this.functions[name] === 'function')
+              return this.callBuiltIn(node, this.functions[name], values)
+            throw this.error(ErrorCode.InvalidCallback, node, { name })
+          }
+          if (this.definitions.hasOwnProperty(name)) {
+            let definition = this.definitions[name]
+            let values = args.map(arg => arg(variables, scope))
+            let body = this.compiledBody(definition)
+            return this.call(node, definition, values, scope => body(variables, scope))
+          }
+          throw this.unknownFunction(node)
+        }
+      }
     }
 
-    if (node.Number !== undefined) {
-      return parseFloat(node.Number)
+    let unknown = node as TExpression
+    return () => {
+      throw this.error(ErrorCode.UnknownSyntax, unknown)
     }
+  }
 
-    if (node.Binary !== undefined) {
-      let subNode = node.Binary
-      let left = this.exec(subNode.left)
-      let right = this.exec(subNode.right)
-      switch (subNode.operator) {
-        case '+':
-          return left + right
-        case '-':
-          return left - right
-        case '*':
-          return left * right
-        case '/':
-          return left / right
-        default:
-          throw new EvaluatorError(this, 'Unknown operator ' + subNode.operator)
+  // Applies an arithmetic or comparison operator, minding matrices, the units of quantities and the
+  // numeric backend. The operator is the node's, unless a matrix operation applies another.
+  private binary(node: TBinaryExpression, left: TValue, right: TValue, operator = node.operator): TValue {
+    if (typeof left === 'number' && typeof right === 'number') {
+      return binaryOperators[operator](left, right)
+    }
+    if (left instanceof Matrix || right instanceof Matrix) {
+      return this.matrixOperation(node, operator, left, right)
+    }
+    if (left instanceof Quantity || right instanceof Quantity) {
+      let result = quantityOperation(operator, toQuantity(left), toQuantity(right))
+      if (result === undefined) {
+        throw this.dimensionMismatch(node, toQuantity(left).dimension, toQuantity(right).dimension)
       }
+      return result
+    }
+    if (left instanceof Complex || right instanceof Complex) {
+      let result = complexOperation(operator, this.complex(left), this.complex(right))
+      if (result === undefined) {
+        throw this.error(ErrorCode.ComplexOperand, { range: node.operatorRange || node.range },
+          { operator, found: String(left instanceof Complex ? left : right) })
+      }
+      return result
+    }
+    let backend = this.backend
+    let a = backend.isValue(left) ? left : backend.fromNumber(toNumber(left))
+    let b = backend.isValue(right) ? right : backend.fromNumber(toNumber(right))
+    if (!backend.isValue(a) || !backend.isValue(b)) {
+      // Values the backend can't take, eg. Infinity, or decimals in float mode
+      return binaryOperators[operator](toNumber(left), toNumber(right))
     }
+    return backend.binary(operator, a, b)
+  }
+
+  // Operators apply element by element, with a scalar standing for every element, apart from
+  // the product of a matrix with a matrix or vector, and a square matrix to a whole power
+  private matrixOperation(node: TBinaryExpression, operator: string, left: TValue, right: TValue): TValue {
+    if (left instanceof Matrix && right instanceof Matrix) {
+      if (operator === '*' && (rank(left) === 2 || rank(right) === 2)) {
+        return this.matrixProduct(node, left, right)
+      }
+      if (left.length !== right.length) {
+        throw this.shapeMismatch(node, left, right)
+      }
+      return new Matrix(left.elements.map((element, i) => this.binary(node, element, right.elements[i], operator)))
+    }
+    if (left instanceof Matrix) {
+      if (operator === '^' && typeof right === 'number' && Number.isInteger(right) && rank(left) === 2) {
+        return this.matrixPower(node, left, right)
+      }
+      return new Matrix(left.elements.map(element => this.binary(node, element, right, operator)))
+    }
+    return new Matrix((right as Matrix).elements.map(element => this.binary(node, left, element, operator)))
+  }
 
-    if (node.Unary !== undefined) {
-      let subNode = node.Unary
-      expr = this.exec(subNode.expr)
-      switch (subNode.operator) {
-        case '+':
-          return expr
-        case '-':
-          return -expr
-        default:
-          throw new EvaluatorError(this, 'Unknown operator ' + subNode.operator)
+  // A vector on the left is taken as a row, and on the right as a column
+  private matrixProduct(node: TBinaryExpression, left: Matrix, right: Matrix): TValue {
+    let a = rank(left) === 2 ? left.elements.map(row => (row as Matrix).elements) : [left.elements]
+    let b = rank(right) === 2 ? right.elements.map(row => (row as Matrix).elements) : right.elements.map(element => [element])
+    if ((a[0] || []).length !== b.length) {
+      throw this.shapeMismatch(node, left, right)
+    }
+    let columns = b.length ? b[0].length : 0
+    let rows = a.map(row => {
+      let products = []
+      for (let j = 0; j < columns; j += 1) {
+        let terms = row.map((element, k) => this.binary(node, element, b[k][j], '*'))
+        products.push(terms.length ? terms.reduce((sum, term) => this.binary(node, sum, term, '+')) : 0)
       }
+      return products
+    })
+    if (rank(left) !== 2) {
+      return new Matrix(rows[0])
     }
+    return new Matrix(rows.map(row => rank(right) === 2 ? new Matrix(row) : row[0]))
+  }
 
-    if (node.Identifier !== undefined) {
-      if (this.identifiers.hasOwnProperty(node.Identifier)) {
-        return this.identifiers[node.Identifier]
+  // Multiplies out by repeated squaring, a negative power is one of the inverse
+  private matrixPower(node: TBinaryExpression, base: Matrix, exponent: number): TValue {
+    if (base.length !== (base.elements[0] as Matrix).length) {
+      throw this.shapeMismatch(node, base, base)
+    }
+    let result: TValue = fromRows(base.elements.map((_, i) => base.elements.map((_, j) => i === j ? 1 : 0)))
+    let factor: TValue = base
+    if (exponent < 0) {
+      let rows = toRows(base)
+      let inverted = rows !== undefined ? inverse(rows) : undefined
+      if (inverted === undefined) {
+        return NaN
+      }
+      factor = fromRows(inverted)
+    }
+    for (let count = Math.abs(exponent); count > 0; count = Math.floor(count / 2)) {
+      if (count % 2 === 1) {
+        result = this.binary(node, result, factor, '*')
       }
-      throw new EvaluatorError(this, `Unknown identifier "${node.Identifier}"`)
+      factor = this.binary(node, factor, factor, '*')
+    }
+    return result
+  }
+
+  private unary(operator: string, value: TValue): TValue {
+    if (value instanceof Matrix) {
+      return new Matrix(value.elements.map(element => this.unary(operator, element)))
+    }
+    if (value instanceof Quantity) {
+      return quantityUnaryOperation(operator, value)
+    }
+    if (value instanceof Complex) {
+      return operator === '-' ? value.negate() : operator === '+' ? value : value.isZero() ? 1 : 0
+    }
+    if (this.backend.isValue(value)) {
+      return this.backend.unary(operator, value)
+    }
+    return unaryOperators[operator](toNumber(value))
+  }
+
+  private quantity(node: TQuantityLiteral): TValue {
+    let unit = resolveUnit(node.unit, this.units)
+    if (typeof unit === 'string') {
+      throw this.error(ErrorCode.UnknownUnit, node, { name: unit })
+    }
+    return toValue(new Quantity(node.value, node.unit, unit.factor, unit.dimension))
+  }
+
+  private convert(node: TConversionExpression, value: TValue): TValue {
+    if (value instanceof Matrix) {
+      return new Matrix(value.elements.map(element => this.convert(node, element)))
+    }
+    let unit = resolveUnit(node.unit, this.units)
+    if (typeof unit === 'string') {
+      throw this.error(ErrorCode.UnknownUnit, node, { name: unit })
+    }
+    let quantity = toQuantity(value)
+    if (!sameDimension(quantity.dimension, unit.dimension)) {
+      throw this.dimensionMismatch(node, quantity.dimension, unit.dimension)
+    }
+    return toValue(new Quantity(quantity.value * quantity.factor / unit.factor, node.unit, unit.factor, unit.dimension))
+  }
+
+  private matrix(node: TArrayExpression, elements: TValue[]): Matrix {
+    let matrix = new Matrix(elements)
+    if (matrix.shape() === undefined) {
+      // Points at the first row which differs from the one before
+      let i = elements.findIndex((element, i) => i > 0 && new Matrix([elements[i - 1], element]).shape() === undefined)
+      throw i > 0 ? this.shapeMismatch(node.elements[i], elements[i - 1], elements[i]) : this.shapeMismatch(node, matrix, matrix)
+    }
+    return matrix
+  }
+
+  private index(node: TIndexExpression, object: TValue, index: TValue): TValue {
+    if (!(object instanceof Matrix)) {
+      throw this.error(ErrorCode.NotIndexable, node.object, { found: String(object) })
     }
+    let i = index instanceof Quantity ? NaN : toNumber(index)
+    if (!Number.isInteger(i) || i < 0 || i >= object.length) {
+      throw this.error(ErrorCode.IndexOutOfRange, node.index, { index: String(index), length: object.length })
+    }
+    return object.elements[i]
+  }
 
-    if (node.Assignment !== undefined) {
-      let right = this.exec(node.Assignment.value)
-      this.identifiers[node.Assignment.name.Identifier] = right
-      return right
+  // Functions which aren't matrixAware apply to each element of vector and matrix arguments
+  private callBuiltIn(node: TCallExpression, fn: TBuiltInFunction, values: TValue[]): TValue {
+    let matrix = matrixAware.has(fn) ? undefined : values.find(value => value instanceof Matrix) as Matrix | undefined
+    if (matrix === undefined) {
+      return fn(...this.numbers(node, fn, values))
     }
+    return new Matrix(matrix.elements.map((_, i) => this.callBuiltIn(node, fn, values.map(value => {
+      if (!(value instanceof Matrix)) {
+        return value
+      }
+      if (value.length !== matrix!.length) {
+        throw this.shapeMismatch(node, matrix!, value)
+      }
+      return value.elements[i]
+    }))))
+  }
 
-    if (node.FunctionCall !== undefined) {
-      expr = node.FunctionCall
-      if (this.functions.hasOwnProperty(expr.name)) {
-        let args = []
-        for (let i = 0; i < expr.args.length; i += 1) {
-          args.push(this.exec(expr.args[i]))
+  // Built-in functions take plain numbers, so the arguments must not have a unit,
+  // and must be real unless the function is complexAware
+  private numbers(node: TCallExpression, fn: TBuiltInFunction, values: TValue[]): (number | Complex | Matrix)[] {
+    return values.map(value => {
+      if (value instanceof Matrix) {
+        return new Matrix(this.numbers(node, fn, value.elements))
+      }
+      if (value instanceof Quantity) {
+        throw this.error(ErrorCode.UnitArgument, node, { name: node.callee.name, found: String(value) })
+      }
+      if (value instanceof Complex) {
+        if (!complexAware.has(fn)) {
+          throw this.error(ErrorCode.ComplexArgument, node, { name: node.callee.name, found: String(value) })
         }
-        if (typeof this.functions[expr.name] === 'function')
-          return this.functions[expr.name](...args)
-        throw new EvaluatorError(this, `The function "${expr.name}" does not have a valid callback`)
+        return value
       }
-      throw new EvaluatorError(this, 'Unknown function ' + expr.name)
+      return toNumber(value)
+    })
+  }
+
+  // A complex number has float parts, so decimals turn into floats
+  private complex(value: number | Decimal | Complex | Matrix): Complex {
+    return value instanceof Complex ? value : toComplex(toNumber(value))
+  }
+
+  private error(code: ErrorCode, node: { range: TRange }, params: TMessageParams = {},
+                details: Pick<TDiagnostic, 'suggestions'> = {}): EvaluatorError {
+    return new EvaluatorError(createDiagnostic(code, 'error', node.range, params, details))
+  }
+
+  // Points at the operator of a binary expression, which is what doesn't fit the shapes
+  private shapeMismatch(node: TExpression, left: TValue, right: TValue): EvaluatorError {
+    let range = node.type === 'BinaryExpression' && node.operatorRange || node.range
+    return this.error(ErrorCode.ShapeMismatch, { range }, { left: formatShape(shapeOf(left)), right: formatShape(shapeOf(right)) })
+  }
+
+  // Points at the operator, which is what doesn't fit the dimensions
+  private dimensionMismatch(node: TBinaryExpression | TConversionExpression,
+                            left: TDimension, right: TDimension): EvaluatorError {
+    return this.error(ErrorCode.DimensionMismatch, { range: node.operatorRange || node.range },
+      { left: formatDimension(left), right: formatDimension(right) })
+  }
+
+  // Looks the name up in the scope of the current call, the variables, the session and the constants, in that order
+  private lookup(node: TIdentifier, variables: TScope, scope?: TScope): TValue {
+    let name = node.name
+    if (scope !== undefined && scope.hasOwnProperty(name)) {
+      return scope[name]
+    }
+    if (variables.hasOwnProperty(name)) {
+      return variables[name]
     }
+    if (this.session.hasOwnProperty(name)) {
+      return this.session[name]
+    }
+    if (this.identifiers.hasOwnProperty(name)) {
+      return this.identifiers[name]
+    }
+    throw this.unknownIdentifier(node, variables, scope)
+  }
 
-    throw new EvaluatorError(this, 'Unknown syntax node')
+  // Inside a function body assignments stay local to the call, constants are never written
+  private assign(node: TAssignmentExpression, value: TValue, variables: TScope, scope?: TScope): TValue {
+    let name = node.name.name
+    if (this.identifiers.hasOwnProperty(name)) {
+      throw this.error(ErrorCode.ConstantAssignment, node.name, { name })
+    }
+    let target = scope !== undefined ? scope : variables
+    target[name] = value
+    return value
+  }
+
+  private unknownIdentifier(node: TIdentifier, variables: TScope, scope?: TScope): EvaluatorError {
+    let known = Object.keys(this.identifiers)
+      .concat(Object.keys(this.session))
+      .concat(Object.keys(variables))
+      .concat(Object.keys(scope || {}))
+    return this.error(ErrorCode.UnknownIdentifier, node, { name: node.name }, { suggestions: suggest(node.name, known) })
+  }
+
+  private unknownFunction(node: TCallExpression): EvaluatorError {
+    let name = node.callee.name
+    let known = Object.keys(this.functions).concat(Object.keys(this.definitions))
+    return this.error(ErrorCode.UnknownFunction, node, { name }, { suggestions: suggest(name, known) })
+  }
+
+  // Compiles the body of a user-defined function once per definition
+  private compiledBody(definition: TFunctionDefinition): TCompiled {
+    let body = this.compiledBodies.get(definition)
+    if (body === undefined) {
+      body = this.compileNode(definition.body)
+      this.compiledBodies.set(definition, body)
+    }
+    return body
   }
 }
@@ -0,0 +1,155 @@
+import {TUnitTerm} from "./tapDigit"
+
+// Exponents of the base units, eg. {m: 1, s: -1} for a speed
+export type TDimension = { [baseUnit: string]: number }
+
+export type TUnitDefinition = {
+  factor: number          // The size of the unit in base units, eg. 1000 for t
+  dimension: TDimension
+  prefixes?: boolean      // Whether SI prefixes apply, eg. km and ms
+}
+
+/**
+ * The units of measure which may follow a number, builtIns.units. Extend a copy to add units of a domain.
+ * Dimensions are given in base units; a new base unit is simply one which is its own dimension.
+ */
+export const units: { [name: string]: TUnitDefinition } = {
+  m: { factor: 1, dimension: { m: 1 }, prefixes: true },
+  g: { factor: 0.001, dimension: { kg: 1 }, prefixes: true },
+  s: { factor: 1, dimension: { s: 1 }, prefixes: true },
+  A: { factor: 1, dimension: { A: 1 }, prefixes: true },
+  K: { factor: 1, dimension: { K: 1 }, prefixes: true },
+  mol: { factor: 1, dimension: { mol: 1 }, prefixes: true },
+  cd: { factor: 1, dimension: { cd: 1 }, prefixes: true },
+  Hz: { factor: 1, dimension: { s: -1 }, prefixes: true },
+  N: { factor: 1, dimension: { kg: 1, m: 1, s: -2 }, prefixes: true },
+  Pa: { factor: 1, dimension: { kg: 1, m: -1, s: -2 }, prefixes: true },
+  J: { factor: 1, dimension: { kg: 1, m: 2, s: -2 }, prefixes: true },
+  W: { factor: 1, dimension: { kg: 1, m: 2, s: -3 }, prefixes: true },
+  C: { factor: 1, dimension: { A: 1, s: 1 }, prefixes: true },
+  V: { factor: 1, dimension: { kg: 1, m: 2, s: -3, A: -1 }, prefixes: true },
+  ohm: { factor: 1, dimension: { kg: 1, m: 2, s: -3, A: -2 }, prefixes: true },
+  L: { factor: 0.001, dimension: { m: 3 }, prefixes: true },
+  t: { factor: 1000, dimension: { kg: 1 } },
+  min: { factor: 60, dimension: { s: 1 } },
+  h: { factor: 3600, dimension: { s: 1 } },
+  day: { factor: 86400, dimension: { s: 1 } },
+  inch: { factor: 0.0254, dimension: { m: 1 } },
+  ft: { factor: 0.3048, dimension: { m: 1 } },
+  yd: { factor: 0.9144, dimension: { m: 1 } },
+  mi: { factor: 1609.344, dimension: { m: 1 } },
+  lb: { factor: 0.45359237, dimension: { kg: 1 } },
+}
+
+const unitPrefixes: { [prefix: string]: number } = {
+  Y: 1e24, Z: 1e21, E: 1e18, P: 1e15, T: 1e12, G: 1e9, M: 1e6, k: 1e3, h: 1e2, da: 1e1,
+  d: 1e-1, c: 1e-2, m: 1e-3, u: 1e-6, n: 1e-9, p: 1e-12, f: 1e-15, a: 1e-18, z: 1e-21, y: 1e-24,
+}
+
+// Looks the unit up by name, or as an SI prefix followed by the name of a unit which takes one
+export function findUnit(name: string, units: { [name: string]: TUnitDefinition }): TUnitDefinition | undefined {
+  if (units.hasOwnProperty(name)) {
+    return units[name]
+  }
+  for (let prefix of Object.keys(unitPrefixes)) {
+    let base = name.slice(prefix.length)
+    if (name.indexOf(prefix) === 0 && units.hasOwnProperty(base) && units[base].prefixes) {
+      return { factor: unitPrefixes[prefix] * units[base].factor, dimension: units[base].dimension }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Writes the unit the way the Parser reads it, eg. kg*m/s^2
+ */
+export function formatUnit(unit: TUnitTerm[]): string {
+  return unit.map((term, i) => {
+    let exponent = i > 0 ? Math.abs(term.exponent) : term.exponent
+    let separator = i === 0 ? '' : term.exponent < 0 ? '/' : '*'
+    return separator + term.name + (exponent === 1 ? '' : '^' + exponent)
+  }).join('')
+}
+
+/**
+ * A number with a unit of measure, eg. 3 km. Values which end up without a dimension, eg. 3 m / 1 m,
+ * are plain numbers again.
+ */
+export class Quantity {
+  constructor(
+    readonly value: number,           // In the unit, eg. 3 for 3 km
+    readonly unit: TUnitTerm[],
+    readonly factor: number,          // The size of the unit in base units, eg. 1000 for km
+    readonly dimension: TDimension) {
+  }
+
+  public toString(): string {
+    return this.value + ' ' + formatUnit(this.unit)
+  }
+}
+
+// Writes the dimension in base units, eg. m/s, or 1 for none
+export function formatDimension(dimension: TDimension): string {
+  let unit = Object.keys(dimension).map(name => ({ name, exponent: dimension[name] }))
+  return unit.length ? formatUnit(unit) : '1'
+}
+
+export function isDimensionless(dimension: TDimension): boolean {
+  return Object.keys(dimension).length === 0
+}
+
+export function sameDimension(a: TDimension, b: TDimension): boolean {
+  return isDimensionless(combineDimensions(a, b, -1))
+}
+
+// Multiplies (sign 1) or divides (sign -1) dimensions, dropping the base units which cancel out
+export function combineDimensions(a: TDimension, b: TDimension, sign: number): TDimension {
+  let result: TDimension = { ...a }
+  for (let base of Object.keys(b)) {
+    result[base] = (result[base] || 0) + sign * b[base]
+    if (result[base] === 0) {
+      delete result[base]
+    }
+  }
+  return result
+}
+
+// Raises a dimension to a power
+export function scaleDimension(dimension: TDimension, power: number): TDimension {
+  let result: TDimension = {}
+  for (let base of Object.keys(dimension)) {
+    if (dimension[base] * power !== 0) {
+      result[base] = dimension[base] * power
+    }
+  }
+  return result
+}
+
+export function combineUnits(a: TUnitTerm[], b: TUnitTerm[], sign: number): TUnitTerm[] {
+  let result = a.map(term => ({ ...term }))
+  for (let term of b) {
+    let same = result.find(other => other.name === term.name)
+    if (same) {
+      same.exponent += sign * term.exponent
+    } else {
+      result.push({ name: term.name, exponent: sign * term.exponent })
+    }
+  }
+  return result.filter(term => term.exponent !== 0)
+}
+
+// Resolves the size and dimension of a unit, or returns the name of the first unknown part
+export function resolveUnit(unit: TUnitTerm[], units: { [name: string]: TUnitDefinition }):
+    { factor: number, dimension: TDimension } | string {
+  let factor = 1
+  let dimension: TDimension = {}
+  for (let term of unit) {
+    let definition = findUnit(term.name, units)
+    if (definition === undefined) {
+      return term.name
+    }
+    factor *= Math.pow(definition.factor, term.exponent)
+    dimension = combineDimensions(dimension, scaleDimension(definition.dimension, term.exponent), 1)
+  }
+  return { factor, dimension }
+}
@@ -0,0 +1,50 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Parser, TFunctionDefinition, builtIns } from '../src/tapDigit'
+import { TReference, analyze } from '../src/analysis'
+
+describe('analyze', () => {
+  let parser = new Parser(builtIns.functions)
+
+  function names(references: TReference[]): string[] {
+    return references.map(reference => `${reference.name}:${reference.kind}`)
+  }
+
+  it('finds reads, assignments and calls with their ranges', () => {
+    let analysis = analyze(parser.parse('x + sin(x) * pi'))
+    expect(names(analysis.reads)).to.deep.equal(['x:unknown', 'pi:builtIn'])
+    expect(analysis.reads[0].ranges).to.deep.equal([{ start: 0, end: 1 }, { start: 8, end: 9 }])
+    expect(names(analysis.calls)).to.deep.equal(['sin:builtIn'])
+    expect(analysis.calls[0].ranges).to.deep.equal([{ start: 4, end: 7 }])
+    expect(analysis.assigns).to.deep.equal([])
+  })
+
+  it('leaves out variables read after they are assigned', () => {
+    let analysis = analyze(parser.parse('a = a + 1; b = 2; a * b * c; pi = 3'))
+    expect(names(analysis.reads)).to.deep.equal(['a:unknown', 'c:unknown'])
+    expect(names(analysis.assigns)).to.deep.equal(['a:defined', 'b:defined', 'pi:builtIn'])
+  })
+
+  it('keeps reads after an assignment which may not be evaluated', () => {
+    let analysis = analyze(parser.parse('x > 0 ? (y = 1) : 0; x || (z = 2); y + z'))
+    expect(names(analysis.reads)).to.deep.equal(['x:unknown', 'y:unknown', 'z:unknown'])
+    expect(names(analysis.assigns)).to.deep.equal(['y:defined', 'z:defined'])
+  })
+
+  it('treats parameters and assignments in function bodies as local', () => {
+    let analysis = analyze(parser.parse('f(x) = (t = x * k) + t; f(2) + g(1)'))
+    expect(names(analysis.reads)).to.deep.equal(['k:unknown'])
+    expect(analysis.assigns).to.deep.equal([])
+    expect(names(analysis.calls)).to.deep.equal(['f:defined', 'g:unknown'])
+  })
+
+  it('takes the known names from the options', () => {
+    let analysis = analyze(parser.parse('rate * h(2)'), {
+      identifiers: { rate: 0.1 },
+      functions: {},
+      definitions: { h: parser.parse('h(x) = x').body[0] as TFunctionDefinition }
+    })
+    expect(names(analysis.reads)).to.deep.equal(['rate:builtIn'])
+    expect(names(analysis.calls)).to.deep.equal(['h:defined'])
+  })
+})
@@ -0,0 +1,78 @@
+import 'mocha'
+import { expect } from 'chai'
+import { builtIns } from '../src/tapDigit'
+import { complete, signatureHelp } from '../src/completion'
+
+describe('complete', () => {
+  function names(expr: string, offset = expr.length, context = {}): string[] | undefined {
+    let completions = complete(expr, offset, context)
+    return completions && completions.items.map(item => `${item.name}:${item.kind}`)
+  }
+
+  it('offers the names starting with the identifier typed up to the cursor', () => {
+    expect(names('1 + s')).to.deep.equal(['sin:function', 'sqrt:function', 'sum:function'])
+    expect(names('P')).to.deep.equal(['phi:constant', 'pi:constant'])
+    expect(names('sqrt(2) + sq', 11)).to.deep.equal(['sin:function', 'sqrt:function', 'sum:function'])
+    expect(complete('1 + sq', 6)!.range).to.deep.equal({ start: 4, end: 6 })
+  })
+
+  it('replaces the whole identifier at the cursor', () => {
+    let completions = complete('ceil(1) + flo + 2', 12)!
+    expect(completions.range).to.deep.equal({ start: 10, end: 13 })
+    expect(completions.items.map(item => item.name)).to.deep.equal(['floor'])
+  })
+
+  it('describes every completion', () => {
+    let items = complete('rou', 3)!.items
+    expect(items).to.deep.equal([{ name: 'round', kind: 'function', detail: 'round(x, digits?)' }])
+    expect(complete('ph', 2)!.items[0].detail).to.equal('1.618033988749895')
+  })
+
+  it('offers variables of the context and of the expression', () => {
+    let context = { functions: { ...builtIns.functions, tax: (x: number) => x * 0.2 }, variables: { total: 10 } }
+    expect(names('t', 1, context)).to.deep.equal(['tan:function', 'tax:function', 'total:variable', 'transpose:function'])
+    expect(names('rate = 2; area(w, h) = w * h; ra', undefined, context)).to.deep.equal(['random:function', 'rate:variable'])
+    expect(names('area(w, h) = w * h; are')).to.deep.equal(['area:function'])
+  })
+
+  it('offers nothing outside of an identifier or at a unit', () => {
+    expect(complete('1 + ', 4)).to.equal(undefined)
+    expect(complete('sin(', 4)).to.equal(undefined)
+    expect(complete('2 k', 3)).to.equal(undefined)
+    expect(complete('', 0)).to.equal(undefined)
+  })
+})
+
+describe('signatureHelp', () => {
+  function active(expr: string, offset = expr.length): string | undefined {
+    let help = signatureHelp(expr, offset)
+    return help && `${help.label} ${help.signature.params[help.activeParameter].name}`
+  }
+
+  it('gives the parameter of the argument at the cursor', () => {
+    expect(active('round(')).to.equal('round(x, digits?) x')
+    expect(active('round(2.5, ')).to.equal('round(x, digits?) digits')
+    expect(active('1 + log(8, 2) * 3', 11)).to.equal('log(x, base?) base')
+    expect(active('max(1, 2, 3, ')).to.equal('max(...values) values')
+  })
+
+  it('finds the innermost call around the cursor', () => {
+    expect(active('log(sqrt(2), ')).to.equal('log(x, base?) base')
+    expect(active('log(sqrt(')).to.equal('sqrt(x) x')
+    expect(active('log((1 + 2), ')).to.equal('log(x, base?) base')
+    expect(active('round(sum([1, 2, 3]), ')).to.equal('round(x, digits?) digits')
+    expect(active('round(sum([1, 2, ')).to.equal('sum(...values) values')
+  })
+
+  it('describes functions the expression defines', () => {
+    expect(active('f(a, b) = a * b; f(1, ')).to.equal('f(a, b) b')
+  })
+
+  it('gives nothing outside of a call to a known function', () => {
+    expect(signatureHelp('round(1) + ', 11)).to.equal(undefined)
+    expect(signatureHelp('(1, ', 4)).to.equal(undefined)
+    expect(signatureHelp('foo(1, ', 7)).to.equal(undefined)
+    expect(signatureHelp('round(2', 5)).to.equal(undefined)
+    expect(signatureHelp('round(2', 6)!.activeParameter).to.equal(0)
+  })
+})
@@ -0,0 +1,91 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, EvaluatorError, Parser, ParserError, builtIns, complexBuiltIns } from '../src/tapDigit'
+import { Complex } from '../src/complex'
+import { print } from '../src/printer'
+import { simplify } from '../src/simplify'
+
+describe('Complex', () => {
+  it('prints as a + bi', () => {
+    expect(String(new Complex(3, 4))).to.equal('3 + 4i')
+    expect(String(new Complex(3, -1))).to.equal('3 - i')
+    expect(String(new Complex(0, -2.5))).to.equal('-2.5i')
+    expect(String(new Complex(0, 1))).to.equal('i')
+    expect(String(new Complex(7, 0))).to.equal('7')
+  })
+})
+
+describe('complex mode', () => {
+  function evaluate(expr: string): string {
+    return String(new Evaluator(complexBuiltIns.functions, { ...complexBuiltIns.identifiers }).evaluate(expr))
+  }
+
+  it('parses imaginary literals', () => {
+    let parser = new Parser(complexBuiltIns.functions, complexBuiltIns.identifiers)
+    let literal = parser.parse('2.5i').body[0]
+    expect(literal).to.deep.equal({ type: 'ImaginaryLiteral', value: 2.5, raw: '2.5', range: { start: 0, end: 4 } })
+    expect(print(parser.parse('3 - 4 i * i'))).to.equal('3 - 4i * i')
+  })
+
+  it('applies every operator', () => {
+    expect(evaluate('3 + 4i')).to.equal('3 + 4i')
+    expect(evaluate('(1 + 2i) * (3 - i)')).to.equal('5 + 5i')
+    expect(evaluate('(1 + 2i) / (3 - 4i)')).to.equal('-0.2 + 0.4i')
+    expect(evaluate('-(1 - 2i)')).to.equal('-1 + 2i')
+    expect(evaluate('i^2')).to.equal('-1')
+    expect(evaluate('2i^-1')).to.equal('-0.5i')
+    expect(evaluate('1 + i == i + 1')).to.equal('1')
+    expect(evaluate('i != i')).to.equal('0')
+    expect(evaluate('i ? 1 : 2')).to.equal('1')
+  })
+
+  it('has complex versions of the functions', () => {
+    expect(evaluate('sqrt(-4)')).to.equal('2i')
+    expect(evaluate('sqrt(4)')).to.equal('2')
+    expect(evaluate('sqrt(2i)')).to.equal('1 + i')
+    expect(evaluate('ln(-1)')).to.equal(Math.PI + 'i')
+    expect(evaluate('abs(exp(pi * i) + 1) < 1e-15')).to.equal('1')
+    expect(evaluate('sin(i)')).to.equal(Math.sinh(1) + 'i')
+    expect(evaluate('cos(i)')).to.equal(String(Math.cosh(1)))
+    expect(evaluate('abs(tan(1 + i) - sin(1 + i) / cos(1 + i)) < 1e-15')).to.equal('1')
+    expect(evaluate('abs(sin(asin(2)) - 2) < 1e-15')).to.equal('1')
+    expect(evaluate('asin(0.5)')).to.equal(String(Math.asin(0.5)))
+    expect(evaluate('abs(3 - 4i)')).to.equal('5')
+    expect(evaluate('re(3 - 4i) + im(3 - 4i)')).to.equal('-1')
+    expect(evaluate('conj(3 - 4i)')).to.equal('3 + 4i')
+    expect(evaluate('arg(-1)')).to.equal(String(Math.PI))
+    // Without overflowing on the way
+    expect(evaluate('abs(1e200 + 1e200i)')).to.equal(String(Math.SQRT2 * 1e200))
+    expect(evaluate('abs(sqrt(-1e308) / 1e154 - i) < 1e-15')).to.equal('1')
+    expect(evaluate('abs(sqrt(1e308i) / 1e154 - sqrt(i)) < 1e-15')).to.equal('1')
+  })
+
+  it('refuses comparisons and remainders of complex numbers', () => {
+    let evaluator = new Evaluator(complexBuiltIns.functions, { ...complexBuiltIns.identifiers })
+    expect(() => evaluator.evaluate('(1 + 2i) < 3')).to.throw(EvaluatorError, 'Operator < expects real numbers, found 1 + 2i')
+      .with.property('range').that.deep.equals({ start: 9, end: 10 })
+    expect(() => evaluator.evaluate('3 >= 2i')).to.throw(EvaluatorError, 'Operator >= expects real numbers, found 2i')
+    expect(evaluator.compile('(1 + 2i) % 3')).to.throw(EvaluatorError, 'Operator % expects real numbers, found 1 + 2i')
+  })
+
+  it('refuses complex arguments of real functions', () => {
+    expect(() => evaluate('floor(1 + i)')).to.throw('Function floor() expects a real number, found 1 + i')
+  })
+
+  it('compiles', () => {
+    let evaluator = new Evaluator(complexBuiltIns.functions, { ...complexBuiltIns.identifiers })
+    let f = evaluator.compile('z * conj(z)')
+    expect(f({ z: new Complex(3, 4) })).to.equal(25)
+  })
+
+  it('keeps real functions real outside of complex mode', () => {
+    expect(new Evaluator(builtIns.functions, builtIns.identifiers).evaluate('sqrt(-1)')).to.be.NaN
+    expect(print(simplify(new Parser(complexBuiltIns.functions).parse('sqrt(-1) + sqrt(4)'),
+      { functions: complexBuiltIns.functions }))).to.equal('sqrt(-1) + 2')
+  })
+
+  it('takes i after a number as imaginary only in complex mode', () => {
+    expect(() => new Evaluator(builtIns.functions, { ...builtIns.identifiers }).evaluate('2i')).to.throw(ParserError, 'Unexpected token "i"')
+    expect(new Parser(builtIns.functions, builtIns.identifiers).parseTolerant('2 i').program.body[0].type).to.equal('NumberLiteral')
+  })
+})
@@ -0,0 +1,77 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, builtIns } from '../src/tapDigit'
+import { Decimal, DecimalBackend } from '../src/decimal'
+import { Sheet } from '../src/sheet'
+
+describe('Decimal', () => {
+  it('reads number literals exactly', () => {
+    expect(Decimal.parse('12.50')).to.deep.equal(new Decimal(BigInt(125), -1))
+    expect(String(Decimal.parse('.5e-3'))).to.equal('0.0005')
+    expect(String(Decimal.parse('1e21'))).to.equal('1e+21')
+    expect(String(Decimal.parse('123456789e-16'))).to.equal('1.23456789e-8')
+    expect(String(Decimal.parse('-0.10'))).to.equal('-0.1')
+    expect(Decimal.parse('1.2.3')).to.equal(undefined)
+  })
+})
+
+describe('DecimalBackend', () => {
+  function evaluate(expr: string, backend = new DecimalBackend()): string {
+    return String(new Evaluator(builtIns.functions, { ...builtIns.identifiers }, builtIns.units, backend).evaluate(expr))
+  }
+
+  it('does exact decimal arithmetic', () => {
+    expect(evaluate('0.1 + 0.2')).to.equal('0.3')
+    expect(evaluate('0.1 + 0.2 == 0.3')).to.equal('1')
+    expect(evaluate('19.99 * 3 - 0.97')).to.equal('59')
+    expect(evaluate('1.1 ^ 2 - -1')).to.equal('2.21')
+    expect(evaluate('-7.5 % 2')).to.equal('-1.5')
+    expect(evaluate('2 ^ 100')).to.equal('1.267650600228229401496703205376e+30')
+    expect(evaluate('2 ^ -2')).to.equal('0.25')
+  })
+
+  it('rounds to the precision with the rounding mode', () => {
+    expect(evaluate('1 / 3')).to.equal('0.3333333333333333333333333333333333')
+    expect(evaluate('2 / 3', new DecimalBackend(5))).to.equal('0.66667')
+    expect(evaluate('2 / 3', new DecimalBackend(5, 'down'))).to.equal('0.66666')
+    expect(evaluate('-2 / 3', new DecimalBackend(5, 'floor'))).to.equal('-0.66667')
+    expect(evaluate('-2 / 3', new DecimalBackend(5, 'ceiling'))).to.equal('-0.66666')
+    expect(evaluate('0.125 + 0', new DecimalBackend(2))).to.equal('0.12')
+    expect(evaluate('0.125 + 0', new DecimalBackend(2, 'half-up'))).to.equal('0.13')
+    expect(evaluate('0.135 + 0', new DecimalBackend(2))).to.equal('0.14')
+  })
+
+  it('adds across a huge exponent gap without aligning the digits', () => {
+    let started = Date.now()
+    expect(evaluate('1e400000 + 1')).to.equal('1e+400000')
+    expect(evaluate('1e400000 - 1', new DecimalBackend(5, 'down'))).to.equal('9.9999e+399999')
+    expect(evaluate('1e400000 - 1', new DecimalBackend(5, 'up'))).to.equal('1e+400000')
+    expect(evaluate('1 - 1e-400000', new DecimalBackend(5, 'floor'))).to.equal('0.99999')
+    expect(evaluate('1e400000 > 1')).to.equal('1')
+    expect(evaluate('1e400000 % 3')).to.equal('1')
+    expect(evaluate('-2.5e400000 % 0.7')).to.equal('-0.2')
+    expect(evaluate('3 % 1e400000')).to.equal('3')
+    expect(Date.now() - started).to.be.below(1000)
+  })
+
+  it('falls back to floats where decimals do not reach', () => {
+    expect(evaluate('1 / 0')).to.equal('Infinity')
+    expect(evaluate('sqrt(2) * 1')).to.equal(String(Math.SQRT2))
+    expect(evaluate('4 ^ 0.5')).to.equal('2')
+    expect(evaluate('0.1 m + 0.2 m')).to.equal(String(0.1 + 0.2) + ' m')
+  })
+
+  it('compiles to the same results', () => {
+    let evaluator = new Evaluator(builtIns.functions, {}, builtIns.units, new DecimalBackend())
+    let total = evaluator.compile('price * quantity * (1 + rate)')
+    expect(String(total({ price: Decimal.parse('0.7')!, quantity: 3, rate: Decimal.parse('0.1')! }))).to.equal('2.31')
+    expect(String(evaluator.compile('x > 0 ? x : -x')({ x: Decimal.parse('-0.1')! }))).to.equal('0.1')
+  })
+
+  it('drives a sheet', () => {
+    let sheet = new Sheet(builtIns.functions, builtIns.identifiers, builtIns.units, new DecimalBackend())
+    sheet.setFormula('total', 'subtotal + subtotal * 0.07')
+    sheet.setFormula('subtotal', '3 * 1.10')
+    expect(String(sheet.get('total')!.value)).to.equal('3.531')
+  })
+})
@@ -0,0 +1,89 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, Parser, TExpression, builtIns } from '../src/tapDigit'
+import { DerivativeError, SizeLimitError, derivative } from '../src/derivative'
+import { print } from '../src/printer'
+import { signatureOf } from '../src/functions'
+
+describe('derivative', () => {
+  let parser = new Parser(builtIns.functions)
+
+  function parse(expr: string): TExpression {
+    return parser.parse(expr).body[0]
+  }
+
+  function d(expr: string): string {
+    return print(derivative(parse(expr), 'x'))
+  }
+
+  it('differentiates the arithmetic operators', () => {
+    expect(d('3 * x + 2')).to.equal('3')
+    expect(d('x * y - y')).to.equal('y')
+    expect(d('1 / x')).to.equal('-1 / x ^ 2')
+    expect(d('-x')).to.equal('-1')
+  })
+
+  it('differentiates powers', () => {
+    expect(d('x ^ 3')).to.equal('3 * x ^ 2')
+    expect(d('2 ^ x')).to.equal('2 ^ x * ln(2)')
+    expect(d('x ^ x')).to.equal('x ^ x * (ln(x) + x / x)')
+  })
+
+  it('applies the chain rule', () => {
+    expect(d('sin(x ^ 2)')).to.equal('cos(x ^ 2) * (2 * x)')
+    expect(d('ln(y)')).to.equal('0')
+  })
+
+  it('agrees with finite differences for every built-in function', () => {
+    let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+    let sources = [
+      'abs(x - 1)', 'acos(x / 2)', 'asin(x / 2)', 'atan(x)', 'cos(3 * x)', 'exp(x ^ 2)', 'ln(x + 2)',
+      'sin(x) * cos(x)', 'sqrt(x)', 'tan(x)', 'x ^ x', 'x % 0.3', 'x > 0.5 ? x ^ 2 : 2 * x', 'y = x / (1 + x)',
+      'log(x)', 'log(x ^ 2, 2)', 'log(3, x + 1)', 'round(x * 3) + ceil(x) + floor(x) + len([x, 1])',
+      'sum(x, [x ^ 2, 3])', 'mean(x, [x ^ 2, 3])', 'min(x, [1 - x, 0.5])', 'max(x, [1 - x, 0.5])', 'hypot(x, [2 * x, 1])',
+      'dot([x, 1], [2, x ^ 2])', 'sum(cross([x, 1, 0], [0, x ^ 2, 1]))', 'sum(transpose([x, x ^ 2]))',
+      'sum(inv([[x + 1, 1], [0, 2]]))', 'det([[x, 2], [x ^ 2, 3]])',
+    ]
+    for (let source of sources) {
+      let f = evaluator.compile(source)
+      let df = evaluator.compile(derivative(parser.parse(source), 'x'))
+      for (let x of [0.2, 0.7]) {
+        let h = 1e-6
+        let expected = ((f({ x: x + h }) as number) - (f({ x: x - h }) as number)) / (2 * h)
+        expect(df({ x }), `${source} at ${x}`).to.be.closeTo(expected, 1e-5)
+      }
+    }
+  })
+
+  it('has a rule for every built-in function', () => {
+    for (let name of Object.keys(builtIns.functions)) {
+      let example = signatureOf(builtIns.functions[name]).examples[0]
+      expect(() => derivative(parser.parse(example.replace(/\d+(\.\d+)?/, 'x')), 'x'), example).not.to.throw()
+    }
+  })
+
+  it('differentiates through the variables a program assigns', () => {
+    let program = derivative(parser.parse('y = x ^ 2; y + x; z = y * y; x > 0 ? (y = 1) : 2; y'), 'x')
+    expect(print(program)).to.equal('2 * x; 2 * x + 1; 2 * x * x ^ 2 + x ^ 2 * (2 * x); x > 0 ? 0 : 0; 2 * x')
+    let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+    expect(evaluator.evaluateAll(program, { x: 3 })).to.deep.equal([6, 7, 108, 0, 6])
+  })
+
+  it('limits the size of the derivative of a chain of assignments', () => {
+    let source = 'a0 = x + 1'
+    for (let i = 1; i < 30; i += 1) {
+      source += `; a${i} = a${i - 1} * a${i - 1} + x`
+    }
+    // At a11 = a10 * a10 + x, whose derivative written out has more than 100000 nodes
+    let start = source.indexOf('a11 =')
+    expect(() => derivative(parser.parse(source), 'x')).to.throw(SizeLimitError, 'Derivative exceeds the limit of 100000 nodes')
+      .with.property('range').that.deep.equals({ start, end: source.indexOf('; a12') })
+    expect(() => derivative(parser.parse('y = x * x; y * y'), 'x', { maxSize: 10 })).to.throw(SizeLimitError)
+    expect(print(derivative(parser.parse('y = x * x; y * y'), 'x', { maxSize: 20 }))).to.equal('x + x; (x + x) * (x * x) + x * x * (x + x)')
+  })
+
+  it('rejects what it cannot differentiate', () => {
+    expect(() => derivative(parse('foo(x)'), 'x')).to.throw(DerivativeError, 'Cannot differentiate function "foo()"')
+    expect(() => derivative(parse('f(x) = x'), 'x')).to.throw(DerivativeError)
+  })
+})
@@ -0,0 +1,118 @@
+import 'mocha'
+import { expect } from 'chai'
+import { EditBuffer, sanitize } from '../src/editing'
+
+describe('EditBuffer', () => {
+  function type(buffer: EditBuffer, text: string): void {
+    for (let ch of text) {
+      buffer.insert(ch)
+    }
+  }
+
+  it('undoes typing a word at a time', () => {
+    let buffer = new EditBuffer()
+    type(buffer, 'sin(x) + 12')
+    expect(buffer.text).to.equal('sin(x) + 12')
+    expect(buffer.undo()).to.equal(true)
+    expect(buffer.text).to.equal('sin(x) + ')
+    buffer.undo()
+    expect(buffer.text).to.equal('sin(x) ')
+    buffer.undo()
+    expect(buffer.text).to.equal('')
+    expect(buffer.undo()).to.equal(false)
+    expect(buffer.redo()).to.equal(true)
+    expect(buffer.text).to.equal('sin(x) ')
+    expect(buffer.selection).to.deep.equal({ anchor: 7, focus: 7 })
+  })
+
+  it('starts a new step after the cursor moves and forgets redo after an edit', () => {
+    let buffer = new EditBuffer()
+    type(buffer, 'ab')
+    buffer.move(-1)
+    type(buffer, 'cd')
+    expect(buffer.text).to.equal('acdb')
+    buffer.undo()
+    expect(buffer.text).to.equal('ab')
+    expect(buffer.selection).to.deep.equal({ anchor: 1, focus: 1 })
+    type(buffer, 'x')
+    expect(buffer.redo()).to.equal(false)
+    buffer.delete(-1)
+    buffer.delete(-1)
+    expect(buffer.text).to.equal('b')
+    buffer.undo()
+    expect(buffer.text).to.equal('axb')
+  })
+
+  it('keeps at most maxHistory steps', () => {
+    let buffer = new EditBuffer()
+    buffer.maxHistory = 2
+    buffer.paste('1')
+    buffer.paste('2')
+    buffer.paste('3')
+    expect(buffer.undo() && buffer.undo()).to.equal(true)
+    expect(buffer.undo()).to.equal(false)
+    expect(buffer.text).to.equal('1')
+  })
+
+  it('keeps the direction of the selection', () => {
+    let buffer = new EditBuffer('abc + def')
+    buffer.select(5)
+    buffer.move(-1, true)
+    buffer.move(-1, true)
+    expect(buffer.selection).to.deep.equal({ anchor: 5, focus: 3 })
+    expect(buffer.selectedText()).to.equal(' +')
+    buffer.move(1, true)
+    expect(buffer.selection).to.deep.equal({ anchor: 5, focus: 4 })
+    buffer.move(1)
+    expect(buffer.selection).to.deep.equal({ anchor: 5, focus: 5 })
+    buffer.moveToEdge(-1, true)
+    expect(buffer.selection).to.deep.equal({ anchor: 5, focus: 0 })
+    buffer.selectAll()
+    expect(buffer.selection).to.deep.equal({ anchor: 0, focus: 9 })
+  })
+
+  it('moves and deletes a word at a time', () => {
+    let buffer = new EditBuffer('total * 1.5 + rate')
+    buffer.moveToEdge(-1)
+    buffer.move(1, false, true)
+    expect(buffer.selection.focus).to.equal(5)
+    buffer.move(1, false, true)
+    expect(buffer.selection.focus).to.equal(7)
+    buffer.move(1, true, true)
+    expect(buffer.selectedText()).to.equal(' 1.5')
+    buffer.moveToEdge(1)
+    buffer.delete(-1, true)
+    expect(buffer.text).to.equal('total * 1.5 + ')
+    buffer.select(0)
+    buffer.delete(1, true)
+    expect(buffer.text).to.equal(' * 1.5 + ')
+  })
+
+  it('cuts and pastes sanitized text', () => {
+    let buffer = new EditBuffer('1 + 2')
+    buffer.select(1, 5)
+    expect(buffer.cut()).to.equal(' + 2')
+    expect(buffer.text).to.equal('1')
+    buffer.paste(' − 3 ×\r\n4\t÷ 2\n')
+    expect(buffer.text).to.equal('1 - 3 * 4 / 2')
+    buffer.undo()
+    buffer.undo()
+    expect(buffer.text).to.equal('1 + 2')
+  })
+
+  it('tells listeners about every change', () => {
+    let buffer = new EditBuffer()
+    let changes: string[] = []
+    let remove = buffer.onChange(text => changes.push(text))
+    type(buffer, 'ab')
+    buffer.select(0)
+    buffer.undo()
+    remove()
+    buffer.redo()
+    expect(changes).to.deep.equal(['a', 'ab', ''])
+  })
+
+  it('sanitizes control characters', () => {
+    expect(sanitize('a\u0007b c')).to.equal('ab c')
+  })
+})
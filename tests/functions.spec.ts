@@ -0,0 +1,98 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, Parser, TBuiltInFunction, builtIns, complexBuiltIns } from '../src/tapDigit'
+import { arityOf, declare, formatSignature, signatureOf } from '../src/functions'
+import { simplify } from '../src/simplify'
+import { print } from '../src/printer'
+
+describe('Functions', () => {
+  function evaluate(expr: string): string {
+    return String(new Evaluator(builtIns.functions, { ...builtIns.identifiers }).evaluate(expr))
+  }
+
+  function warnings(expr: string, mode: { functions: { [name: string]: TBuiltInFunction }, identifiers: object } = builtIns): string[] {
+    let parser = new Parser(mode.functions, mode.identifiers)
+    parser.parse(expr)
+    return parser.warnings.map(warning => warning.message)
+  }
+
+  it('declares the signature of every built-in function', () => {
+    for (let mode of [builtIns, complexBuiltIns]) {
+      let functions = mode.functions
+      for (let name of Object.keys(functions)) {
+        let signature = signatureOf(functions[name])
+        expect(signature.description, name).to.not.equal('')
+        expect(signature.examples, name).to.not.be.empty
+        for (let example of signature.examples) {
+          expect(example.indexOf(name + '('), example).to.equal(0)
+          expect(warnings(example, mode), example).to.deep.equal([])
+        }
+      }
+    }
+  })
+
+  it('describes signatures for signature help', () => {
+    let functions = builtIns.functions
+    expect(formatSignature('round', signatureOf(functions.round))).to.equal('round(x, digits?)')
+    expect(formatSignature('max', signatureOf(functions.max))).to.equal('max(...values)')
+    expect(formatSignature('random', signatureOf(functions.random))).to.equal('random()')
+    expect(signatureOf(functions.log).params.map(param => param.type)).to.deep.equal(['number', 'number'])
+    expect(signatureOf(complexBuiltIns.functions.sqrt).params[0].type).to.equal('complex')
+    expect(signatureOf(functions.random).pure).to.equal(false)
+  })
+
+  it('gives the arity from the signature', () => {
+    let functions = builtIns.functions
+    expect(arityOf(signatureOf(functions.sin))).to.deep.equal({ min: 1, max: 1 })
+    expect(arityOf(signatureOf(functions.round))).to.deep.equal({ min: 1, max: 2 })
+    expect(arityOf(signatureOf(functions.hypot))).to.deep.equal({ min: 1, max: Infinity })
+    expect(arityOf(signatureOf(functions.random))).to.deep.equal({ min: 0, max: 0 })
+    // A function never declared takes as many arguments as it has parameters
+    expect(formatSignature('f', signatureOf((a: number, b: number) => a + b))).to.equal('f(x1, x2)')
+    expect(arityOf(signatureOf((a: number, b = 1) => a + b))).to.deep.equal({ min: 1, max: 1 })
+  })
+
+  it('checks calls against the signatures', () => {
+    expect(warnings('max(1, 2, 3) + round(2.5) + round(2.567, 2) + log(8, 2) + random()')).to.deep.equal([])
+    expect(warnings('sin(1, 2)')).to.deep.equal(['Function sin() expects 1 arg(s), found 2'])
+    expect(warnings('max()')).to.deep.equal(['Function max() expects at least 1 arg(s), found 0'])
+    expect(warnings('round(1, 2, 3)')).to.deep.equal(['Function round() expects at most 2 arg(s), found 3'])
+    expect(warnings('random(1)')).to.deep.equal(['Function random() expects 0 arg(s), found 1'])
+    let parser = new Parser(builtIns.functions, builtIns.identifiers)
+    parser.parse('log()')
+    expect(parser.warnings[0].code).to.equal('too-few-arguments')
+  })
+
+  it('evaluates the variadic built-ins', () => {
+    expect(evaluate('min(4, 2, 8)')).to.equal('2')
+    expect(evaluate('max(4, 2, 8)')).to.equal('8')
+    expect(evaluate('max([1, 5], 3)')).to.equal('5')
+    expect(evaluate('hypot(3, 4)')).to.equal('5')
+    expect(evaluate('hypot([1, 2], 2)')).to.equal('3')
+    expect(evaluate('sum(1, 2, 3)')).to.equal('6')
+    expect(evaluate('sum([1, 2], [[3]])')).to.equal('6')
+    expect(evaluate('mean(1, 2, 6)')).to.equal('3')
+    expect(evaluate('max([])')).to.equal('NaN')
+  })
+
+  it('evaluates optional parameters', () => {
+    expect(evaluate('round(2.567)')).to.equal('3')
+    expect(evaluate('round(2.567, 2)')).to.equal('2.57')
+    expect(evaluate('round(1234, -2)')).to.equal('1200')
+    expect(evaluate('round(1, 0.5)')).to.equal('NaN')
+    expect(evaluate('round([1.25, 2.75], 1)')).to.equal('[1.3, 2.8]')
+    expect(evaluate('log(1000)')).to.equal('3')
+    expect(evaluate('log(8, 2)')).to.equal('3')
+  })
+
+  it('folds only pure functions', () => {
+    let functions = { ...builtIns.functions, now: declare(() => Date.now(), {
+      params: [], pure: false, description: 'The current time', examples: ['now()']
+    }) }
+    let parser = new Parser(functions, {})
+    let reduce = (expr: string) => print(simplify(parser.parse(expr).body[0], { functions }))
+    expect(reduce('max(1, 2) + log(100)')).to.equal('4')
+    expect(reduce('now() - now()')).to.equal('now() - now()')
+    expect(reduce('random() * 0 + 1')).to.equal('0 * random() + 1')
+  })
+})
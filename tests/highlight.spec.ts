@@ -0,0 +1,47 @@
+import 'mocha'
+import { expect } from 'chai'
+import { builtIns } from '../src/tapDigit'
+import { analyzeSemantics } from '../src/highlight'
+
+describe('analyzeSemantics', () => {
+  function classes(expr: string, context = {}): string[] {
+    return analyzeSemantics(expr, context).highlights.map(highlight =>
+      `${expr.substring(highlight.range.start, highlight.range.end)}:${highlight.class}`)
+  }
+
+  it('tells known functions, constants and unknown names apart', () => {
+    expect(classes('sin(pi) + sinn(x)')).to.deep.equal([
+      'sin:function-known', 'pi:constant', 'sinn:function-unknown', 'x:identifier-unknown'
+    ])
+  })
+
+  it('marks variables the expression assigns, wherever they are read', () => {
+    expect(classes('y * 2; y = 3; y + z')).to.deep.equal([
+      'y:assigned', 'y:assigned', 'y:assigned', 'z:identifier-unknown'
+    ])
+  })
+
+  it('marks definitions and their parameters', () => {
+    expect(classes('f(x) = x * k; f(2)')).to.deep.equal([
+      'f:function-known', 'x:parameter', 'x:parameter', 'k:identifier-unknown', 'f:function-known'
+    ])
+  })
+
+  it('takes the names of the context', () => {
+    let context = { functions: { ...builtIns.functions, tax: (x: number) => x }, identifiers: { rate: 0 }, variables: { total: 0 } }
+    expect(classes('tax(total * rate) + pi', context)).to.deep.equal([
+      'tax:function-known', 'total:assigned', 'rate:constant', 'pi:identifier-unknown'
+    ])
+  })
+
+  it('gives the errors and warnings at their ranges', () => {
+    let diagnostics = analyzeSemantics('x = 1; sinn(x) + y + (2').diagnostics
+    expect(diagnostics.map(diagnostic => `${diagnostic.severity} ${diagnostic.code} ${diagnostic.range.start}-${diagnostic.range.end}`))
+      .to.deep.equal([
+        'warning unknown-function 7-11',
+        'warning unknown-identifier 17-18',
+        'error missing-token 23-23'
+      ])
+    expect(analyzeSemantics('1 + #').diagnostics.map(diagnostic => diagnostic.code)).to.deep.equal(['unknown-character', 'unexpected-end'])
+  })
+})
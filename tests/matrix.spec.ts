@@ -0,0 +1,115 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, Parser, TNode, builtIns } from '../src/tapDigit'
+import { Matrix } from '../src/matrix'
+import { derivative } from '../src/derivative'
+import { print } from '../src/printer'
+import { simplify } from '../src/simplify'
+
+describe('Matrix', () => {
+  function withoutRanges(node: TNode): object {
+    return JSON.parse(JSON.stringify(node, (key, value) => key === 'range' || key === 'operatorRange' ? undefined : value))
+  }
+
+  function evaluate(expr: string): string {
+    return String(new Evaluator(builtIns.functions, { ...builtIns.identifiers }).evaluate(expr))
+  }
+
+  function rows(expr: string): number[][] {
+    let matrix = new Evaluator(builtIns.functions, { ...builtIns.identifiers }).evaluate(expr) as Matrix
+    return matrix.elements.map(row => (row as Matrix).elements as number[])
+  }
+
+  it('parses array literals and indexing', () => {
+    let parser = new Parser(builtIns.functions, { v: 1 })
+    expect(withoutRanges(parser.parse('-v[1][0]').body[0])).to.deep.equal({
+      type: 'UnaryExpression',
+      operator: '-',
+      argument: {
+        type: 'IndexExpression',
+        object: {
+          type: 'IndexExpression',
+          object: { type: 'Identifier', name: 'v' },
+          index: { type: 'NumberLiteral', value: 1, raw: '1' }
+        },
+        index: { type: 'NumberLiteral', value: 0, raw: '0' }
+      }
+    })
+    expect(parser.parse('[[1], []]').body[0]).to.deep.equal({
+      type: 'ArrayExpression',
+      elements: [
+        { type: 'ArrayExpression', elements: [{ type: 'NumberLiteral', value: 1, raw: '1', range: { start: 2, end: 3 } }],
+          range: { start: 1, end: 4 } },
+        { type: 'ArrayExpression', elements: [], range: { start: 6, end: 8 } },
+      ],
+      range: { start: 0, end: 9 }
+    })
+    let { diagnostics } = parser.parseTolerant('[1,, 2')
+    expect(diagnostics.map(diagnostic => diagnostic.code)).to.deep.equal(['empty-element', 'missing-token'])
+  })
+
+  it('evaluates literals and indexes from 0', () => {
+    expect(evaluate('[1, 2 + 3, -4]')).to.equal('[1, 5, -4]')
+    expect(evaluate('v = [10, 20, 30]; v[0] + v[len(v) - 1]')).to.equal('40')
+    expect(evaluate('[[1, 2], [3, 4]][1][0]')).to.equal('3')
+    expect(() => evaluate('[1, 2][2]')).to.throw('Index 2 is out of range for length 2')
+    expect(() => evaluate('[1, 2][-1]')).to.throw('Index -1 is out of range for length 2')
+    expect(() => evaluate('pi[0]')).to.throw('Cannot index 3.141592653589793, only a vector or matrix')
+    expect(() => evaluate('[[1, 2], [3]]')).to.throw('Shape mismatch: 2 and 1')
+  })
+
+  it('applies operators element by element', () => {
+    expect(evaluate('[1, 2] + [3, 4]')).to.equal('[4, 6]')
+    expect(evaluate('10 - [1, 2]')).to.equal('[9, 8]')
+    expect(evaluate('[[1, 2], [3, 4]] / 2')).to.equal('[[0.5, 1], [1.5, 2]]')
+    expect(evaluate('[1, 2] * [3, 4]')).to.equal('[3, 8]')
+    expect(evaluate('[1, 2, 3] ^ 2')).to.equal('[1, 4, 9]')
+    expect(evaluate('[1, 2] == [1, 3]')).to.equal('[1, 0]')
+    expect(evaluate('-[1, -2]')).to.equal('[-1, 2]')
+    expect(evaluate('[2 m, 3 m] to cm')).to.equal('[200 cm, 300 cm]')
+    expect(evaluate('[1, 2] ? 1 : 0')).to.equal('1')
+    expect(evaluate('[1, 0] ? 1 : 0')).to.equal('0')
+    let error = (() => { try { evaluate('[1, 2] + [1, 2, 3]') } catch (e) { return e } })()
+    expect(error.message).to.equal('Shape mismatch: 2 and 3')
+    expect(error.range).to.deep.equal({ start: 7, end: 8 })
+  })
+
+  it('multiplies and raises matrices', () => {
+    expect(evaluate('[[1, 2], [3, 4]] * [[5, 6], [7, 8]]')).to.equal('[[19, 22], [43, 50]]')
+    expect(evaluate('[[1, 2], [3, 4]] * [1, 1]')).to.equal('[3, 7]')
+    expect(evaluate('[1, 1] * [[1, 2], [3, 4]]')).to.equal('[4, 6]')
+    expect(evaluate('[[1, 2], [3, 4]] ^ 3')).to.equal('[[37, 54], [81, 118]]')
+    expect(evaluate('[[1, 2], [3, 4]] ^ 0')).to.equal('[[1, 0], [0, 1]]')
+    let inverse = rows('[[4, 7], [2, 6]] ^ -1')
+    expect(inverse[0][0]).to.be.closeTo(0.6, 1e-12)
+    expect(inverse[1][1]).to.be.closeTo(0.4, 1e-12)
+    expect(() => evaluate('[[1, 2], [3, 4]] * [1, 2, 3]')).to.throw('Shape mismatch: 2x2 and 3')
+  })
+
+  it('has built-ins for vectors and matrices', () => {
+    expect(evaluate('dot([1, 2, 3], [4, 5, 6])')).to.equal('32')
+    expect(evaluate('cross([1, 0, 0], [0, 1, 0])')).to.equal('[0, 0, 1]')
+    expect(evaluate('transpose([[1, 2, 3], [4, 5, 6]])')).to.equal('[[1, 4], [2, 5], [3, 6]]')
+    expect(evaluate('transpose([1, 2])')).to.equal('[[1], [2]]')
+    expect(Number(evaluate('det([[2, 0, 1], [1, 3, 2], [1, 1, 2]])'))).to.be.closeTo(6, 1e-12)
+    expect(evaluate('det([[1, 2], [2, 4]])')).to.equal('0')
+    let inverse = rows('inv([[2, 1], [1, 1]])')
+    expect(inverse.map(row => row.map(Math.round))).to.deep.equal([[1, -1], [-1, 2]])
+    expect(evaluate('inv([[1, 2], [2, 4]])')).to.equal('NaN')
+    expect(evaluate('sum([1, 2, 3]) + mean([[1, 2], [3, 4]]) + len([[1, 2], [3, 4]])')).to.equal('10.5')
+    expect(evaluate('dot([1, 2], [1, 2, 3])')).to.equal('NaN')
+  })
+
+  it('applies other functions to every element', () => {
+    expect(evaluate('floor([[1.5, 2.5], [-0.5, 0]])')).to.equal('[[1, 2], [-1, 0]]')
+    expect(evaluate('f(x) = x ^ 2; f([1, 2])')).to.equal('[1, 4]')
+    expect(() => evaluate('sum([1 m])')).to.throw('Function sum() expects a number without unit, found 1 m')
+  })
+
+  it('prints, simplifies and differentiates', () => {
+    let parser = new Parser(builtIns.functions)
+    expect(print(parser.parse('[a,(-b)[0] ,c[1][2]]'))).to.equal('[a, (-b)[0], c[1][2]]')
+    expect(print(simplify(parser.parse('a * b * a * a + [1 + 1, x * 0]')))).to.equal('a * b * a ^ 2 + [2, 0]')
+    expect(print(derivative(parser.parse('[x ^ 2, 3 * x][0]'), 'x'))).to.equal('[2 * x, 3][0]')
+  })
+})
@@ -0,0 +1,52 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Parser, TNode, builtIns } from '../src/tapDigit'
+import { print } from '../src/printer'
+
+describe('print', () => {
+  let parser = new Parser(builtIns.functions, builtIns.identifiers)
+
+  function withoutRanges(node: TNode): object {
+    return JSON.parse(JSON.stringify(node, (key, value) => key === 'range' || key === 'operatorRange' ? undefined : value))
+  }
+
+  it('prints canonical source', () => {
+    expect(print(parser.parse('x=1+ 2*3 ;f( a,b )=a^b'))).to.equal('x = 1 + 2 * 3; f(a, b) = a ^ b')
+    expect(print(parser.parse('  sin( pi/4 ) '))).to.equal('sin(pi / 4)')
+    expect(print(parser.parse('a<b&&!c?1:2'))).to.equal('a < b && !c ? 1 : 2')
+  })
+
+  it('keeps only the parentheses precedence needs', () => {
+    expect(print(parser.parse('((1 + 2)) + (3 * 4)'))).to.equal('1 + 2 + 3 * 4')
+    expect(print(parser.parse('1 - (2 - 3) - (4 + 5)'))).to.equal('1 - (2 - 3) - (4 + 5)')
+    expect(print(parser.parse('(2 ^ 3) ^ 4 + 2 ^ (3 ^ 4)'))).to.equal('(2 ^ 3) ^ 4 + 2 ^ 3 ^ 4')
+    expect(print(parser.parse('-(x ^ 2) + (-x) ^ 2'))).to.equal('-(x ^ 2) + -x ^ 2')
+    expect(print(parser.parse('(a ? b : c) ? (d = 1) : (e || f) && g'))).to.equal('(a ? b : c) ? d = 1 : (e || f) && g')
+    expect(print(parser.parse('(2 m)^2 + (3 m^2) to cm^2'))).to.equal('(2 m) ^ 2 + 3 m^2 to cm^2')
+    expect(print(parser.parse('(2 m) * s + (2 m) * 3 + (x / 3 km) / h'))).to.equal('(2 m) * s + 2 m * 3 + (x / 3 km) / h')
+  })
+
+  it('leaves out spaces when asked to', () => {
+    let options = { spaceAroundOperators: false, spaceAfterSeparators: false }
+    expect(print(parser.parse('a = max(1, 2) - -3; b'), options)).to.equal('a=max(1,2)--3;b')
+  })
+
+  it('round-trips through the parser', () => {
+    let sources = [
+      '2^3^2 % 5 - -x',
+      'y = (1 + x) * sin(2) / (3 / (4 * z))',
+      'fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(5)',
+      'a || b && !(c == d) != e',
+      '((a = 1) + (b = 2)) ? c ? 1 : 2 : 3',
+      '((3 m / 2 s + 4 km/h) in mi/h) > 1 ? 9.81 m*s^-2 : 2 ^ (1 m) to m',
+      '[[1, -2], [a[0], (-b)[1][2]]] * -[x, y]',
+      '(2 m) * s + (x * 3 km) / h * 2 - -(4 s) * ft',
+    ]
+    for (let source of sources) {
+      for (let options of [{}, { spaceAroundOperators: false, spaceAfterSeparators: false }]) {
+        let printed = print(parser.parse(source), options)
+        expect(withoutRanges(parser.parse(printed)), printed).to.deep.equal(withoutRanges(parser.parse(source)))
+      }
+    }
+  })
+})
@@ -0,0 +1,76 @@
+import 'mocha'
+import { expect } from 'chai'
+import { ErrorCode } from '../src/tapDigit'
+import { CycleError, Sheet, TCellChange } from '../src/sheet'
+
+describe('Sheet', () => {
+
+  function invoice(): Sheet {
+    let sheet = new Sheet()
+    sheet.setFormula('total', 'subtotal + tax')
+    sheet.setFormula('tax', 'subtotal * rate')
+    sheet.setInput('subtotal', 100)
+    sheet.setInput('rate', 0.25)
+    return sheet
+  }
+
+  it('computes formulas from the cells they read', () => {
+    let sheet = invoice()
+    expect(sheet.get('tax')!.value).to.equal(25)
+    expect(sheet.get('total')!.value).to.equal(125)
+    expect(sheet.get('total')!.dependencies).to.deep.equal(['subtotal', 'tax'])
+  })
+
+  it('recomputes only the affected cells, in dependency order', () => {
+    let sheet = invoice()
+    sheet.setFormula('other', 'rate * 2')
+    let changes: TCellChange[] = []
+    sheet.onChange(change => changes.push(change))
+
+    sheet.setInput('subtotal', 200)
+    expect(changes.map(change => `${change.name} ${change.previous} -> ${change.value}`))
+      .to.deep.equal(['subtotal 100 -> 200', 'tax 25 -> 50', 'total 125 -> 250'])
+  })
+
+  it('reports only the cells whose value changes', () => {
+    let sheet = invoice()
+    let changed: string[] = []
+    let stop = sheet.onChange(change => changed.push(change.name))
+    sheet.setFormula('tax', 'rate * subtotal')
+    expect(changed).to.deep.equal(['tax'])
+    stop()
+    sheet.setInput('rate', 0)
+    expect(changed).to.deep.equal(['tax'])
+    expect(sheet.get('total')!.value).to.equal(100)
+  })
+
+  it('reports cycles with their path, until they are broken', () => {
+    let sheet = invoice()
+    sheet.setFormula('subtotal', 'total - 1')
+    let error = sheet.get('subtotal')!.error as CycleError
+    expect(error).to.be.instanceOf(CycleError)
+    expect(error.code).to.equal(ErrorCode.CircularReference)
+    expect(error.path).to.deep.equal(['subtotal', 'total', 'subtotal'])
+    expect(error.message).to.equal('Circular reference subtotal -> total -> subtotal')
+    expect(error.range).to.deep.equal({ start: 0, end: 5 })
+    expect((sheet.get('total')!.error as CycleError).path).to.deep.equal(['total', 'subtotal', 'total'])
+    expect(sheet.get('tax')!.error).to.equal(sheet.get('subtotal')!.error)
+    expect(sheet.get('tax')!.value).to.be.NaN
+
+    sheet.setInput('subtotal', 10)
+    expect(sheet.get('total')!.error).to.equal(undefined)
+    expect(sheet.get('total')!.value).to.equal(12.5)
+  })
+
+  it('keeps errors on the cells at fault and on those reading them', () => {
+    let sheet = invoice()
+    sheet.setFormula('rate', '0.1 +')
+    expect(sheet.get('rate')!.error!.code).to.equal(ErrorCode.UnexpectedEnd)
+    expect(sheet.get('total')!.error).to.equal(sheet.get('rate')!.error)
+
+    sheet.remove('rate')
+    expect(sheet.get('tax')!.error!.code).to.equal(ErrorCode.UnknownIdentifier)
+    sheet.setInput('rate', 0.5)
+    expect(sheet.get('total')!.value).to.equal(150)
+  })
+})
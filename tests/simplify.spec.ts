@@ -0,0 +1,81 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, Parser, builtIns } from '../src/tapDigit'
+import { simplify } from '../src/simplify'
+import { print } from '../src/printer'
+import { Decimal, DecimalBackend } from '../src/decimal'
+
+describe('simplify', () => {
+  let parser = new Parser(builtIns.functions)
+
+  function s(expr: string): string {
+    return print(simplify(parser.parse(expr)))
+  }
+
+  it('folds constant sub-trees', () => {
+    expect(s('2 * 3 + x')).to.equal('6 + x')
+    expect(s('sqrt(16) * x ^ (1 + 1)')).to.equal('4 * x ^ 2')
+    expect(s('1 < 2 ? y : z')).to.equal('y')
+    expect(s('0 && x')).to.equal('0')
+  })
+
+  it('applies identities', () => {
+    expect(s('x * 1 + 0')).to.equal('x')
+    expect(s('x - x')).to.equal('0')
+    expect(s('--x')).to.equal('x')
+    expect(s('0 * sin(x) + y / 1 + z ^ 1')).to.equal('y + z')
+  })
+
+  it('collects like terms and combines coefficients', () => {
+    expect(s('2 * x + 3 * x')).to.equal('5 * x')
+    expect(s('x + y - 3 * x + 1 + y')).to.equal('-2 * x + 2 * y + 1')
+    expect(s('2 * x * 3 * y')).to.equal('6 * x * y')
+    expect(s('x * x * y ^ 2 * y')).to.equal('x ^ 2 * y ^ 3')
+    expect(s('-(2 * x) + x')).to.equal('-x')
+  })
+
+  it('never folds impure calls or drops assignments', () => {
+    expect(s('random() - random()')).to.equal('random() - random()')
+    expect(s('random() * 0')).to.equal('0 * random()')
+    expect(s('(a = 2) - (a = 2)')).to.equal('(a = 2) - (a = 2)')
+  })
+
+  it('leaves results which are not finite unfolded', () => {
+    expect(s('0 / 0 + 1 / 0 - ln(0) + x / x + 0 / x')).to.equal('0 / 0 + 1 / 0 - ln(0) + x / x + 0 / x')
+    expect(s('1e308 * 10 * x + 1e308 + 1e308')).to.equal('1e+308 * (10 * x) + 1e308 + 1e308')
+    expect(s('f(x) = x * 1 + 0; f(1 + 1)')).to.equal('f(x) = x; f(2)')
+  })
+
+  it('folds with the arithmetic of the backend', () => {
+    let backend = new DecimalBackend()
+    let simplified = simplify(parser.parse('0.1 + 0.2 + 0.1 * x + 0.2 * x - y ^ 0.1 * y ^ 0.2'), { backend })
+    expect(print(simplified)).to.equal('0.3 + 0.3 * x - y ^ 0.3')
+    let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers }, builtIns.units, backend)
+    expect(String(evaluator.evaluate(simplified, { x: Decimal.parse('1')!, y: 1 }))).to.equal('-0.4')
+    expect(s('0.1 + 0.2')).to.equal(String(0.1 + 0.2))
+    expect(print(simplify(parser.parse('1.00000000000000000001 * x'), { backend }))).to.equal('1.00000000000000000001 * x')
+  })
+
+  it('keeps the value of the expression', () => {
+    let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+    let sources = [
+      'x ^ 2 - 2 * x * 3 + x * x - (x - 1) * 2', '3 % 2 + x / x * 4 - -x', 'x > 1 && 0 || x ? 2 * x : 3 * x - x',
+      '((1 m - 1 m) to cm) + x * (2 km - 2 km) + 0 * (3 m) + 2 * (1 m) + 1 m',
+    ]
+    for (let source of sources) {
+      let simplified = evaluator.compile(simplify(parser.parse(source)))
+      let original = evaluator.compile(source)
+      for (let x of [-1.5, 0, 0.5, 3]) {
+        let expected = original({ x })
+        if (typeof expected !== 'number') {
+          // A quantity
+          expect(String(simplified({ x })), `${source} at ${x}`).to.equal(String(expected))
+        } else if (isNaN(expected)) {
+          expect(simplified({ x }), `${source} at ${x}`).to.be.NaN
+        } else {
+          expect(simplified({ x }), `${source} at ${x}`).to.be.closeTo(expected, 1e-12)
+        }
+      }
+    }
+  })
+})
@@ -0,0 +1,59 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Lexer, Parser, TRange, builtIns } from '../src/tapDigit'
+import { bracketAt, enclosingRange, matchBrackets } from '../src/structure'
+
+describe('matchBrackets', () => {
+  let lexer = new Lexer()
+
+  it('pairs up nested parentheses and square brackets', () => {
+    let brackets = matchBrackets(lexer.tokenize('f((1), [2, (3)])'))
+    expect(brackets.pairs).to.deep.equal([
+      { open: 1, close: 15 }, { open: 2, close: 4 }, { open: 7, close: 14 }, { open: 11, close: 13 }
+    ])
+    expect(brackets.unbalanced).to.deep.equal([])
+  })
+
+  it('finds unbalanced brackets', () => {
+    expect(matchBrackets(lexer.tokenize('(1 + 2')).unbalanced).to.deep.equal([0])
+    expect(matchBrackets(lexer.tokenize('1) + (2)')).unbalanced).to.deep.equal([1])
+    let brackets = matchBrackets(lexer.tokenize('(1 + [2)]'))
+    expect(brackets.unbalanced).to.deep.equal([0, 5, 7, 8])
+  })
+
+  it('finds the pair of the bracket next to the cursor', () => {
+    let brackets = matchBrackets(lexer.tokenize('(1 + (2))'))
+    expect(bracketAt(brackets, 5)).to.deep.equal({ open: 5, close: 7 })
+    expect(bracketAt(brackets, 6)).to.deep.equal({ open: 5, close: 7 })
+    expect(bracketAt(brackets, 9)).to.deep.equal({ open: 0, close: 8 })
+    expect(bracketAt(brackets, 3)).to.equal(undefined)
+  })
+})
+
+describe('enclosingRange', () => {
+  let parser = new Parser(builtIns.functions, builtIns.identifiers)
+
+  // The text of each wider selection, starting from the cursor
+  function expansions(expr: string, offset: number): string[] {
+    let program = parser.parseTolerant(expr).program
+    let result: string[] = []
+    let selection: TRange | undefined = { start: offset, end: offset }
+    while ((selection = enclosingRange(program, selection)) !== undefined) {
+      result.push(expr.substring(selection.start, selection.end))
+    }
+    return result
+  }
+
+  it('widens from an argument to the call and the expression around it', () => {
+    expect(expansions('2 * max(x, 1) + 3', 9)).to.deep.equal([
+      'x', 'max(x, 1)', '2 * max(x, 1)', '2 * max(x, 1) + 3'
+    ])
+  })
+
+  it('widens a selection to the next larger node', () => {
+    let program = parser.parse('a = sqrt(b + c); d')
+    expect(enclosingRange(program, { start: 9, end: 14 })).to.deep.equal({ start: 4, end: 15 })
+    expect(enclosingRange(program, { start: 10, end: 13 })).to.deep.equal({ start: 9, end: 14 })
+    expect(enclosingRange(program, { start: 0, end: 18 })).to.equal(undefined)
+  })
+})
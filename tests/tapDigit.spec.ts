@@ -1,7 +1,531 @@
 import 'mocha'
 import { expect } from 'chai'
+import {
+  DepthLimitError, DiagnosticError, ErrorCode, Evaluator, EvaluatorError, InputLengthError, Lexer, LexerError, LimitError, Parser,
+  ParserError, StepLimitError, TimeLimitError, builtIns, findEdit, formatMessage, messageTemplates, walk
+} from '../src/tapDigit'
 // chai.config.truncateThreshold = 0
 
 describe('utils', () => {
   it('dummy', (() => expect(true).to.equal(true)))
 })
+
+describe('Lexer.tokenize', () => {
+  let lexer = new Lexer()
+
+  function summary(expr: string): string[] {
+    return lexer.tokenize(expr).map(token => `${token.type} ${token.start}-${token.end} ${token.value}`)
+  }
+
+  it('covers every character, with whitespace and invalid tokens', () => {
+    expect(summary('x <= 2 # y')).to.deep.equal([
+      'Identifier 0-0 x', 'Whitespace 1-1  ', 'Operator 2-3 <=', 'Whitespace 4-4  ', 'Number 5-5 2',
+      'Whitespace 6-6  ', 'Invalid 7-7 #', 'Whitespace 8-8  ', 'Identifier 9-9 y'
+    ])
+    expect(summary('2e+ . 3')).to.deep.equal([
+      'Number 0-2 2e+', 'Whitespace 3-3  ', 'Invalid 4-4 .', 'Whitespace 5-5  ', 'Number 6-6 3'
+    ])
+    expect(summary('1ex')).to.deep.equal(['Invalid 0-1 1e', 'Identifier 2-2 x'])
+    expect(summary('')).to.deep.equal([])
+  })
+
+  it('keeps the error of an invalid token', () => {
+    let token = lexer.tokenize('1 + $')[4]
+    expect(token.error!.code).to.equal(ErrorCode.UnknownCharacter)
+    expect(token.error!.range).to.deep.equal({ start: 4, end: 5 })
+  })
+
+  it('scans again only the tokens around an edit', () => {
+    let before = 'sqrt(x) + 12 * y'
+    let tokens = lexer.tokenize(before)
+    let after = 'sqrt(x) + 123 * y'
+    let result = lexer.retokenize(tokens, after, findEdit(before, after))
+    expect(result).to.deep.equal(lexer.tokenize(after))
+    expect(result.slice(0, 7)).to.deep.equal(tokens.slice(0, 7))
+    expect(result[0]).to.equal(tokens[0])
+    expect(result[7].value).to.equal('123')
+    expect(result.length).to.equal(tokens.length)
+  })
+
+  it('gives the same tokens as tokenize() for any edit', () => {
+    let inputs = ['', 'a', 'a <= b', 'a < = b', '1e5 + x1', '1e + $x', '  f(1, 2) ', 'ab c', 'abc', '1.5.2', '# #']
+    for (let before of inputs) {
+      for (let after of inputs) {
+        let result = lexer.retokenize(lexer.tokenize(before), after, findEdit(before, after))
+        expect(result, `${before} => ${after}`).to.deep.equal(lexer.tokenize(after))
+      }
+    }
+  })
+
+  it('finds the smallest edit', () => {
+    expect(findEdit('1 + 2', '1 + 23')).to.deep.equal({ start: 5, end: 5, inserted: 1 })
+    expect(findEdit('1 + 2', '1 - 2')).to.deep.equal({ start: 2, end: 3, inserted: 1 })
+    expect(findEdit('aaa', 'aa')).to.deep.equal({ start: 2, end: 3, inserted: 0 })
+    expect(findEdit('same', 'same')).to.deep.equal({ start: 4, end: 4, inserted: 0 })
+  })
+})
+
+describe('Parser', () => {
+  let parser = new Parser(builtIns.functions, builtIns.identifiers)
+
+  // Parses a single statement and drops the source ranges, which are tested on their own
+  function parse(expr: string): object {
+    return withoutRanges(parser.parse(expr).body[0])
+  }
+
+  function withoutRanges(node: object): object {
+    return JSON.parse(JSON.stringify(node, (key, value) => key === 'range' || key === 'operatorRange' ? undefined : value))
+  }
+
+  function num(value: number): object {
+    return { type: 'NumberLiteral', value, raw: String(value) }
+  }
+
+  function id(name: string): object {
+    return { type: 'Identifier', name }
+  }
+
+  function binary(operator: string, left: object, right: object): object {
+    return { type: 'BinaryExpression', operator, left, right }
+  }
+
+  it('parses "^" as right-associative', () => {
+    expect(parse('2^3^2')).to.deep.equal(binary('^', num(2), binary('^', num(3), num(2))))
+  })
+
+  it('parses "%" at multiplicative precedence', () => {
+    expect(parse('1 + 7 % 4')).to.deep.equal(binary('+', num(1), binary('%', num(7), num(4))))
+  })
+
+  it('rejects a dangling "^"', () => {
+    expect(() => parser.parse('2^')).to.throw(ParserError)
+  })
+
+  it('parses ";" separated statements into a program', () => {
+    expect(withoutRanges(parser.parse('a = 3; a + 1;'))).to.deep.equal({
+      type: 'Program',
+      body: [
+        { type: 'AssignmentExpression', name: id('a'), value: num(3) },
+        binary('+', id('a'), num(1))
+      ]
+    })
+    expect(parser.parse(' ').body).to.deep.equal([])
+  })
+
+  it('parses comparisons below arithmetic and above logical operators', () => {
+    expect(parse('a + 1 < b && c')).to.deep.equal({
+      type: 'LogicalExpression',
+      operator: '&&',
+      left: binary('<', binary('+', id('a'), num(1)), id('b')),
+      right: id('c')
+    })
+  })
+
+  it('parses a conditional expression', () => {
+    expect(parse('x > 1 ? 2 : 3')).to.deep.equal({
+      type: 'ConditionalExpression',
+      test: binary('>', id('x'), num(1)),
+      consequent: num(2),
+      alternate: num(3)
+    })
+    expect(() => parser.parse('x ? 2')).to.throw(ParserError, 'Expecting ":"')
+  })
+
+  it('parses a function definition without warning about its parameters', () => {
+    expect(parse('f(x, y) = x^2 + y')).to.deep.equal({
+      type: 'FunctionDefinition',
+      name: id('f'),
+      params: [id('x'), id('y')],
+      body: binary('+', binary('^', id('x'), num(2)), id('y'))
+    })
+    expect(parser.warnings).to.deep.equal([])
+  })
+
+  it('checks calls against functions defined in the same expression', () => {
+    parser.parse('f(x) = x; f(1, 2); g(1)')
+    expect(parser.warnings.map(warning => warning.message)).to.deep.equal([
+      'Function f() expects 1 arg(s), found 2',
+      'Unknown function "g()"'
+    ])
+  })
+
+  it('rejects invalid function definitions', () => {
+    expect(() => parser.parse('sin(x) = x')).to.throw(ParserError, 'Cannot redefine built-in function')
+    expect(() => parser.parse('f(1) = 1')).to.throw(ParserError, 'Expecting parameter names')
+    expect(() => parser.parse('f(x, x) = x')).to.throw(ParserError, 'Duplicate parameter "x"')
+  })
+
+  it('rejects a missing ";" between statements', () => {
+    expect(() => parser.parse('a = 3 b = 4')).to.throw(ParserError, 'Unexpected token "b"')
+  })
+
+  it('keeps the source range of every node', () => {
+    let expr = 'y = (1 + x) * sin(2)'
+    let ranges: string[] = []
+    walk(parser.parse(expr), {
+      enter: node => {
+        ranges.push(`${node.type} ${expr.substring(node.range.start, node.range.end)}`)
+      }
+    })
+    expect(ranges).to.deep.equal([
+      'Program y = (1 + x) * sin(2)',
+      'AssignmentExpression y = (1 + x) * sin(2)',
+      'Identifier y',
+      'BinaryExpression (1 + x) * sin(2)',
+      'BinaryExpression 1 + x',
+      'NumberLiteral 1',
+      'Identifier x',
+      'CallExpression sin(2)',
+      'Identifier sin',
+      'NumberLiteral 2',
+    ])
+  })
+})
+
+describe('Parser.parseTolerant', () => {
+  let parser = new Parser(builtIns.functions, builtIns.identifiers)
+
+  function summary(expr: string): string[] {
+    return parser.parseTolerant(expr).diagnostics.map(diagnostic =>
+      `${diagnostic.severity} ${diagnostic.code} ${diagnostic.range.start}-${diagnostic.range.end}`)
+  }
+
+  it('reports syntax errors, unknown names and arity mismatches in one pass', () => {
+    expect(summary('foo(1) + sin(1, 2) * (3 + ; x = 2 $ 3; y')).to.deep.equal([
+      'warning unknown-function 0-3',
+      'warning arity-mismatch 9-18',
+      'error unexpected-token 26-27',
+      'error missing-token 26-26',
+      'warning unknown-identifier 28-29',
+      'error unknown-character 34-35',
+      'error unexpected-token 36-37',
+      'warning unknown-identifier 39-40',
+    ])
+  })
+
+  it('returns a partial tree with Error nodes', () => {
+    let { program } = parser.parseTolerant('1 + ; f(2,) ')
+    expect(program.body.length).to.equal(2)
+    let [sum, call] = program.body
+    expect(sum).to.deep.include({ type: 'BinaryExpression', operator: '+' })
+    if (sum.type === 'BinaryExpression') {
+      expect(sum.right).to.deep.equal({
+        type: 'Error',
+        code: 'unexpected-token',
+        message: 'Unexpected token ";"',
+        range: { start: 4, end: 5 },
+        params: { found: ';' },
+        details: { found: ';' }
+      })
+    }
+    expect(call.type).to.equal('CallExpression')
+    if (call.type === 'CallExpression') {
+      expect(call.arguments[1]).to.deep.include({ type: 'Error', range: { start: 10, end: 10 } })
+    }
+  })
+
+  it('raises the error of an Error node when evaluated', () => {
+    let evaluator = new Evaluator(builtIns.functions, builtIns.identifiers)
+    let { program } = parser.parseTolerant('1 + )')
+    expect(() => evaluator.evaluateAll(program)).to.throw(EvaluatorError, 'Unexpected token ")"')
+    expect(evaluator.compile(program)).to.throw(EvaluatorError, 'Unexpected token ")"')
+      .with.property('range').that.deep.equals({ start: 4, end: 5 })
+  })
+
+  it('reports a missing end of input', () => {
+    expect(summary('(1 + 2')).to.deep.equal(['error missing-token 6-6'])
+    expect(summary('2 *')).to.deep.equal(['error unexpected-end 3-3'])
+    expect(summary('2 * 1e')).to.deep.equal(['error invalid-exponent 4-6', 'error unexpected-end 6-6'])
+  })
+
+  it('still throws from parse()', () => {
+    expect(() => parser.parse('f(1,)')).to.throw(ParserError, 'Expecting an argument')
+    expect(parser.parseTolerant('f(1,)').program.body.length).to.equal(1)
+    expect(() => parser.parse('f(1,)')).to.throw(ParserError)
+  })
+})
+
+describe('Diagnostics', () => {
+  let parser = new Parser(builtIns.functions, builtIns.identifiers)
+  let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+
+  function caught(fn: () => void): DiagnosticError {
+    try {
+      fn()
+    } catch (e) {
+      return e
+    }
+    throw new Error('Nothing thrown')
+  }
+
+  it('describe lexer errors', () => {
+    let error = caught(() => parser.parse('1 + #'))
+    expect(error).to.be.instanceOf(LexerError)
+    expect(error.code).to.equal(ErrorCode.UnknownCharacter)
+    expect(error.range).to.deep.equal({ start: 4, end: 5 })
+    expect(error.diagnostic.found).to.equal('#')
+    expect(error.message).to.equal('Unknown token from character #')
+  })
+
+  it('describe parser errors with the expected and found tokens', () => {
+    let error = caught(() => parser.parse('(1 + 2; 3'))
+    expect(error).to.be.instanceOf(ParserError)
+    expect(error.diagnostic).to.deep.include({
+      code: ErrorCode.MissingToken,
+      range: { start: 6, end: 6 },
+      expected: [')'],
+      found: ';'
+    })
+  })
+
+  it('suggest known names for unknown ones', () => {
+    parser.parse('sqr(p) + lnn(2)')
+    expect(parser.warnings.map(warning => [warning.code, warning.suggestions])).to.deep.equal([
+      [ErrorCode.UnknownIdentifier, []],
+      [ErrorCode.UnknownFunction, ['sqrt']],
+      [ErrorCode.UnknownFunction, ['ln', 'len']],
+    ])
+  })
+
+  it('point evaluator errors at the offending node', () => {
+    let error = caught(() => evaluator.evaluate('1 + 2 * phy'))
+    expect(error).to.be.instanceOf(EvaluatorError)
+    expect(error.code).to.equal(ErrorCode.UnknownIdentifier)
+    expect(error.range).to.deep.equal({ start: 8, end: 11 })
+    expect(error.diagnostic.suggestions).to.deep.equal(['phi'])
+  })
+
+  it('format messages from other templates', () => {
+    let error = caught(() => evaluator.evaluate('unknown(1)'))
+    let templates = { [ErrorCode.UnknownFunction]: 'Fonction inconnue « {name}() »' }
+    expect(formatMessage(error.code, error.diagnostic.params, templates)).to.equal('Fonction inconnue « unknown() »')
+    expect(formatMessage(ErrorCode.UnexpectedEnd, {}, templates)).to.equal('Unexpected end of expression')
+  })
+
+  it('use the current templates for new errors', () => {
+    let template = messageTemplates[ErrorCode.UnexpectedEnd]
+    messageTemplates[ErrorCode.UnexpectedEnd] = 'Fin inattendue'
+    try {
+      expect(() => parser.parse('1 +')).to.throw(ParserError, 'Fin inattendue')
+    } finally {
+      messageTemplates[ErrorCode.UnexpectedEnd] = template
+    }
+  })
+})
+
+describe('walk', () => {
+  let parser = new Parser(builtIns.functions)
+
+  it('visits parents before and after their children', () => {
+    let visits: string[] = []
+    walk(parser.parse('-a'), {
+      enter: (node, parent) => {
+        visits.push(`enter ${node.type} in ${parent ? parent.type : 'nothing'}`)
+      },
+      leave: node => {
+        visits.push(`leave ${node.type}`)
+      }
+    })
+    expect(visits).to.deep.equal([
+      'enter Program in nothing',
+      'enter UnaryExpression in Program',
+      'enter Identifier in UnaryExpression',
+      'leave Identifier',
+      'leave UnaryExpression',
+      'leave Program',
+    ])
+  })
+
+  it('skips the children when enter returns false', () => {
+    let types: string[] = []
+    walk(parser.parse('f(1) + 2'), {
+      enter: node => {
+        types.push(node.type)
+        return node.type !== 'CallExpression'
+      }
+    })
+    expect(types).to.deep.equal(['Program', 'BinaryExpression', 'CallExpression', 'NumberLiteral'])
+  })
+})
+
+describe('Evaluator', () => {
+  let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+
+  it('evaluates powers', () => {
+    expect(evaluator.evaluate('2^3')).to.equal(8)
+    expect(evaluator.evaluate('2^3^2')).to.equal(512)
+    expect(evaluator.evaluate('2 * 3^2')).to.equal(18)
+    expect(evaluator.evaluate('2^-1')).to.equal(0.5)
+  })
+
+  it('evaluates statements in order', () => {
+    expect(evaluator.evaluate('a = 3; b = a * 2; b + 1')).to.equal(7)
+    expect(evaluator.evaluateAll('a = 3; b = a * 2; b + 1')).to.deep.equal([3, 6, 7])
+    expect(evaluator.evaluateAll(';')).to.deep.equal([])
+    expect(evaluator.evaluate(';')).to.equal(null)
+  })
+
+  it('evaluates comparison and logical operators to 1 or 0', () => {
+    expect(evaluator.evaluate('1 < 2')).to.equal(1)
+    expect(evaluator.evaluate('2 <= 1')).to.equal(0)
+    expect(evaluator.evaluate('3 >= 3 == 1')).to.equal(1)
+    expect(evaluator.evaluate('1 != 1 || !0')).to.equal(1)
+    expect(evaluator.evaluate('2 && 0')).to.equal(0)
+  })
+
+  it('short-circuits logical and conditional operators', () => {
+    expect(evaluator.evaluate('0 && undefinedName')).to.equal(0)
+    expect(evaluator.evaluate('1 || undefinedName')).to.equal(1)
+    expect(evaluator.evaluate('price = 120; price > 100 ? price * 0.5 : undefinedName')).to.equal(60)
+    expect(evaluator.evaluate('1 ? 2 : 0 ? 3 : 4')).to.equal(2)
+  })
+
+  it('evaluates user-defined functions', () => {
+    expect(evaluator.evaluate('f(x, y) = x^2 + y; f(3, 1)')).to.equal(10)
+    expect(evaluator.evaluate('f(2, 0) + sqrt(f(0, 4))')).to.equal(6)
+    expect(evaluator.evaluate('fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(5)')).to.equal(120)
+  })
+
+  it('gives null for a function definition', () => {
+    expect(evaluator.evaluate('g(x) = x + 1')).to.equal(null)
+    expect(evaluator.evaluateAll('g(x) = x * 2; y = g(3); h(x) = g(x) + y; h(1)')).to.deep.equal([null, 6, null, 8])
+    expect(evaluator.compile('g(x) = x * 2')()).to.equal(null)
+    expect(evaluator.compile('g(x) = x * 2; g(4)')()).to.equal(8)
+  })
+
+  it('keeps function parameters out of the identifiers', () => {
+    let identifiers: { [name: string]: number } = { x: 7 }
+    let scoped = new Evaluator(builtIns.functions, identifiers)
+    expect(scoped.evaluate('f(x) = (y = x * 2) + 1; f(3)')).to.equal(7)
+    expect(identifiers).to.deep.equal({ x: 7 })
+  })
+
+  it('looks names up in layers and never writes the constants', () => {
+    let first = new Evaluator(builtIns.functions, builtIns.identifiers)
+    let second = new Evaluator(builtIns.functions, builtIns.identifiers)
+    expect(() => first.evaluate('pi = 3')).to.throw(ParserError, 'Cannot assign to constant "pi"')
+    let { diagnostics } = first.parser.parseTolerant('x = 1; pi = 3')
+    expect(diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(diagnostic => diagnostic.code))
+      .to.deep.equal([ErrorCode.ConstantAssignment])
+    let tree = new Parser(builtIns.functions).parse('phi = 1')
+    expect(() => first.evaluate(tree)).to.throw(EvaluatorError, 'Cannot assign to constant "phi"')
+    expect(builtIns.identifiers.pi).to.equal(3.1415926535897932384)
+
+    // The session keeps assignments from one evaluation to the next, apart for every evaluator
+    first.evaluate('x = 2')
+    expect(first.evaluate('x * pi')).to.equal(2 * Math.PI)
+    expect(first.session).to.deep.equal({ x: 2 })
+    expect(() => second.evaluate('x')).to.throw(EvaluatorError, 'Unknown identifier "x"')
+
+    // Variables of an evaluation are read first and take its assignments
+    let variables = { x: 10 }
+    expect(first.evaluate('y = x + 1', variables)).to.equal(11)
+    expect(variables).to.deep.equal({ x: 10, y: 11 })
+    expect(first.evaluate('x + z', { z: 1 })).to.equal(3)
+    expect(first.session).to.deep.equal({ x: 2 })
+  })
+
+  it('limits the depth of recursive calls', () => {
+    let limited = new Evaluator(builtIns.functions, {})
+    limited.maxCallDepth = 10
+    limited.evaluate('down(n) = n > 0 ? down(n - 1) : 0')
+    expect(limited.evaluate('down(9)')).to.equal(0)
+    expect(() => limited.evaluate('down(10)')).to.throw(EvaluatorError, 'Maximum call depth of 10 exceeded')
+  })
+
+  it('evaluates a parsed tree', () => {
+    let tree = new Parser(builtIns.functions).parse('x = 2; x * 3')
+    expect(evaluator.evaluateAll(tree)).to.deep.equal([2, 6])
+    expect(evaluator.evaluate(tree.body[1])).to.equal(6)
+  })
+
+  it('evaluates modulo', () => {
+    expect(evaluator.evaluate('7 % 4')).to.equal(3)
+    expect(evaluator.evaluate('2 * 7 % 4')).to.equal(2)
+  })
+})
+
+describe('Evaluator.compile', () => {
+  let formulas = [
+    '1 + 2 * 3 - 4 / 8',
+    '2^3^2 % 5',
+    'sin(pi / 4) * sqrt(2) + (2 * 2)',
+    '-x + +x * !0',
+    'x > 2 && x < 4 || x == 10 ? 1 : 0',
+    'a = x * 2; b = a + 1; a * b',
+    'fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(x)',
+    '',
+    '  ',
+  ]
+
+  it('gives the same results as evaluate()', () => {
+    for (let formula of formulas) {
+      let compiled = new Evaluator(builtIns.functions, { ...builtIns.identifiers, x: 3 }).compile(formula)
+      let expected = new Evaluator(builtIns.functions, { ...builtIns.identifiers, x: 3 }).evaluate(formula)
+      expect(compiled(), formula).to.equal(expected)
+    }
+  })
+
+  it('reads and writes the given variables', () => {
+    let evaluator = new Evaluator(builtIns.functions, { ...builtIns.identifiers })
+    let compiled = evaluator.compile('y = x * pi')
+    let variables: { [name: string]: number } = { x: 2 }
+    expect(compiled(variables)).to.equal(2 * Math.PI)
+    expect(compiled({ x: 1 })).to.equal(Math.PI)
+    expect(variables.y).to.equal(2 * Math.PI)
+    expect(evaluator.identifiers).not.to.have.property('y')
+  })
+
+  it('raises the same errors as evaluate()', () => {
+    let evaluator = new Evaluator(builtIns.functions, {})
+    expect(evaluator.compile('x + 1')).to.throw(EvaluatorError, 'Unknown identifier "x"')
+    expect(evaluator.compile('foo(1)')).to.throw(EvaluatorError, 'Unknown function "foo()"')
+    expect(() => evaluator.compile('1 +')).to.throw(ParserError)
+    evaluator.maxCallDepth = 5
+    expect(evaluator.compile('loop(n) = loop(n); loop(1)')).to.throw(EvaluatorError, 'Maximum call depth of 5 exceeded')
+  })
+})
+
+describe('Limits', () => {
+  it('limits the length of the input', () => {
+    let parser = new Parser(builtIns.functions)
+    parser.lexer.maxLength = 5
+    expect(parser.parse('1 + 2').body).to.have.length(1)
+    let error = (() => { try { parser.parse('1 + 23') } catch (e) { return e } })()
+    expect(error).to.be.instanceOf(InputLengthError)
+    expect(error.message).to.equal('Expression of 6 characters exceeds the limit of 5')
+    expect(error.range).to.deep.equal({ start: 5, end: 6 })
+  })
+
+  it('limits nesting in the source and in the tree', () => {
+    let parser = new Parser(builtIns.functions)
+    expect(() => parser.parse('('.repeat(5000) + '1' + ')'.repeat(5000))).to.throw(DepthLimitError)
+    expect(() => parser.parseTolerant('-'.repeat(5000) + '1')).to.throw(DepthLimitError)
+    expect(() => parser.parse('1' + ' + 1'.repeat(5000))).to.throw(DepthLimitError)
+    parser.maxDepth = 3
+    expect(parser.parse('((1 + 2))').body).to.have.length(1)
+    expect(() => parser.parse('(((1 + 2)))')).to.throw(LimitError, 'Expression nests deeper than the limit of 3 levels')
+    expect(() => parser.parse('1 + 2 + 3 + 4')).to.throw(DepthLimitError)
+  })
+
+  it('limits the steps of an evaluation', () => {
+    let evaluator = new Evaluator(builtIns.functions, {})
+    evaluator.maxSteps = 100
+    evaluator.evaluate('f(n) = n > 0 ? f(n - 1) : 0')
+    expect(evaluator.evaluate('f(5)')).to.equal(0)
+    expect(() => evaluator.evaluate('f(50)')).to.throw(StepLimitError, 'Evaluation exceeded the limit of 100 steps')
+    expect(() => evaluator.compile('f(50)')()).to.throw(StepLimitError)
+    // Every evaluation has a budget of its own
+    let compiled = evaluator.compile('f(5)')
+    for (let i = 0; i < 10; i += 1) {
+      expect(compiled()).to.equal(0)
+    }
+  })
+
+  it('limits the time of an evaluation', () => {
+    let evaluator = new Evaluator(builtIns.functions, {})
+    evaluator.timeLimit = 20
+    evaluator.evaluate('f(n) = n > 0 ? f(n - 1) + f(n - 1) : 1')
+    expect(() => evaluator.evaluate('f(40)')).to.throw(TimeLimitError, 'Evaluation exceeded the time limit of 20 ms')
+  })
+})
@@ -0,0 +1,76 @@
+import 'mocha'
+import { expect } from 'chai'
+import { Evaluator, EvaluatorError, Parser, ParserError, builtIns } from '../src/tapDigit'
+import { Quantity } from '../src/units'
+
+describe('Units', () => {
+  let parser = new Parser(builtIns.functions)
+
+  function evaluate(expr: string): string {
+    return String(new Evaluator(builtIns.functions, { ...builtIns.identifiers }).evaluate(expr))
+  }
+
+  it('parses unit suffixes of numbers', () => {
+    let [speed, ratio] = parser.parse('4 km/h; 3 m / 2 s').body
+    expect(speed).to.deep.equal({
+      type: 'QuantityLiteral',
+      value: 4,
+      raw: '4',
+      unit: [{ name: 'km', exponent: 1 }, { name: 'h', exponent: -1 }],
+      range: { start: 0, end: 6 }
+    })
+    expect(ratio).to.include({ type: 'BinaryExpression', operator: '/' })
+    expect(parser.parse('9.81 m/s^2').body[0]).to.deep.include({
+      unit: [{ name: 'm', exponent: 1 }, { name: 's', exponent: -2 }]
+    })
+    // Not a unit, or a call rather than a unit
+    expect(() => parser.parse('2 x')).to.throw(ParserError)
+    expect(() => parser.parse('2 m(1)')).to.throw(ParserError)
+  })
+
+  it('tracks units through arithmetic', () => {
+    expect(evaluate('3 m / 2 s + 4 km/h')).to.equal('2.611111111111111 m/s')
+    expect(evaluate('2 kg * 3 m/s^2')).to.equal('6 kg*m/s^2')
+    expect(evaluate('(2 m)^2')).to.equal('4 m^2')
+    expect(evaluate('-(1 mi) + 1 ft')).to.equal(String(-1 + 0.3048 / 1609.344) + ' mi')
+    expect(evaluate('3 km / 500 m')).to.equal('6')
+    expect(evaluate('1 h > 59 min && 1 L < 1001 cm^3')).to.equal('1')
+  })
+
+  it('converts with "to" and "in"', () => {
+    expect(evaluate('5 ft to m')).to.equal('1.524 m')
+    expect(evaluate('1.5 h in min')).to.equal('90 min')
+    expect(evaluate('36 km/h to m/s')).to.equal('10 m/s')
+    let quantity = new Evaluator(builtIns.functions, {}).evaluate('x = 2 N * 3 m; x to kJ') as Quantity
+    expect(quantity).to.be.instanceOf(Quantity)
+    expect(quantity.value).to.be.closeTo(0.006, 1e-15)
+    expect(quantity.dimension).to.deep.equal({ kg: 1, m: 2, s: -2 })
+  })
+
+  it('reports mismatched dimensions at the operator', () => {
+    let evaluator = new Evaluator(builtIns.functions, {})
+    expect(() => evaluator.evaluate('1 m + 2 s')).to.throw(EvaluatorError, 'Dimension mismatch: m and s')
+    expect(() => evaluator.evaluate('1 m +  (2 s)')).to.throw(EvaluatorError)
+      .with.property('range').that.deep.equals({ start: 4, end: 5 })
+    expect(() => evaluator.evaluate('5 ft to s')).to.throw(EvaluatorError, 'Dimension mismatch: m and s')
+    expect(() => evaluator.evaluate('2 ^ (1 m)')).to.throw(EvaluatorError, 'Dimension mismatch: 1 and m')
+    expect(() => evaluator.evaluate('sin(1 m)')).to.throw(EvaluatorError, 'Function sin() expects a number without unit, found 1 m')
+    expect(() => parser.parse('1 m to meter')).to.throw(ParserError, 'Unknown unit "meter"')
+  })
+
+  it('takes units registered for a domain, with prefixes', () => {
+    let units = { ...builtIns.units, B: { factor: 1, dimension: { B: 1 }, prefixes: true } }
+    let evaluator = new Evaluator(builtIns.functions, {}, units)
+    expect(String(evaluator.evaluate('3 MB / 2 s to kB/s'))).to.equal('1500 kB/s')
+    expect(() => evaluator.evaluate('1 B + 1 m')).to.throw(EvaluatorError, 'Dimension mismatch: B and m')
+    expect(() => new Parser({}).parse('1 kB')).to.throw(ParserError)
+  })
+
+  it('gives the same results when compiled', () => {
+    let evaluator = new Evaluator(builtIns.functions, {})
+    let compiled = evaluator.compile('d / t to km/h')
+    let variables = { d: evaluator.evaluate('100 m') as Quantity, t: evaluator.evaluate('9.58 s') as Quantity }
+    expect(String(compiled(variables))).to.equal(String(evaluator.evaluate('100 m / 9.58 s to km/h')))
+    expect(evaluator.compile('1 m + 1 s')).to.throw(EvaluatorError, 'Dimension mismatch')
+  })
+})